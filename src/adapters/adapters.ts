@@ -0,0 +1,106 @@
+// src/adapters/adapters.ts
+import type { FlowScrapeConfig } from "../config/config.js";
+import { writePageOnce, writeItems, getStats } from "../storage/storage.js";
+import { withEnvelope, newRunId, EngineMode } from "../storage/envelope.js";
+import type { EngineResult } from "../steps/outcome.js";
+import type { CapturedRequest } from "../browser/capture.js";
+import { shopifyAdapter } from "./shopify.js";
+import { woocommerceAdapter } from "./woocommerce.js";
+import { SEARCH_ADAPTERS } from "./search.js";
+import { log } from "../log.js";
+
+/* ========================= types ========================= */
+
+export type AdapterOpts = {
+  config: FlowScrapeConfig;
+  maxPages: number; // endpoint pages, like listing pages for the DOM engines
+  html: string; // the page as loaded: store currency, locale…
+  requests?: CapturedRequest[]; // search API calls the page made (browser engine)
+};
+
+export type AdapterResult = {
+  adapter: string;
+  endpoint: string; // first JSON URL read
+  items: any[];
+  pages: number;
+  stopReason: string;
+};
+
+/**
+ * A platform's own JSON endpoints (Shopify products.json, the WooCommerce
+ * Store API…) or a hosted search API (search.ts). scrape() resolves null
+ * when the URL isn't one it understands or the store has the endpoint
+ * switched off; the engine then extracts from the DOM.
+ */
+export type Adapter = {
+  name: string;
+  kinds?: string[]; // classifyPage kinds it applies to; all when unset
+  scrape(url: string, opts: AdapterOpts): Promise<AdapterResult | null>;
+};
+
+// platforms first: a Shopify collection reads whole from products.json
+const ADAPTERS: Adapter[] = [shopifyAdapter, woocommerceAdapter, ...SEARCH_ADAPTERS];
+
+export const ADAPTER_NAMES = ADAPTERS.map((a) => a.name);
+
+/* ========================= run ========================= */
+
+/**
+ * First enabled adapter (config `adapters`) for `kind` that returns items.
+ * Adapter errors, robots.txt refusals included, only mean "use the DOM".
+ */
+export async function tryAdapters(kind: string, url: string, opts: AdapterOpts): Promise<AdapterResult | null> {
+  for (const name of opts.config.adapters) {
+    if (!ADAPTER_NAMES.includes(name)) {
+      throw new Error(`[adapters] unknown adapter "${name}" (${ADAPTER_NAMES.join(" | ")})`);
+    }
+  }
+
+  for (const adapter of ADAPTERS) {
+    if (!opts.config.adapters.includes(adapter.name)) continue;
+    if (adapter.kinds && !adapter.kinds.includes(kind)) continue;
+    try {
+      const res = await adapter.scrape(url, opts);
+      if (res?.items.length) {
+        log.info(`[adapters] ${adapter.name}: ${res.items.length} items from ${res.endpoint} (pages: ${res.pages}, stop: ${res.stopReason})`);
+        return res;
+      }
+    } catch (err: any) {
+      const why = err?.kind === "robots" ? "disallowed by robots.txt" : err?.message || err;
+      log.info(`[adapters] ${adapter.name} skipped (${why}) — extracting from the page`);
+    }
+  }
+  return null;
+}
+
+/** Envelope, persist and summarize adapter items the way the engines do. */
+export async function emitAdapterItems(
+  url: string,
+  html: string,
+  res: AdapterResult,
+  meta: { engine: EngineMode; kind: string; runId?: string }
+): Promise<EngineResult> {
+  const items = withEnvelope(res.items, {
+    sourceUrl: url,
+    runId: meta.runId ?? newRunId(),
+    engine: meta.engine,
+    kind: meta.kind,
+  });
+
+  // the HTML snapshot still goes in, so --replay has the DOM side
+  if (html) await writePageOnce(url, html);
+  if (items.length) await writeItems(items);
+
+  const stats = getStats();
+  log.info(`[FlowScrape] Summary → pages:${stats.pages} items:${stats.items} via:${res.adapter}`);
+
+  return {
+    engine: meta.engine,
+    kind: meta.kind,
+    items,
+    pages: res.pages,
+    selectors: { list: [], fields: {} },
+    htmlBytes: html.length,
+    adapter: res.adapter,
+  };
+}
@@ -0,0 +1,97 @@
+// src/adapters/algolia.ts
+import type { SearchProvider } from "./search.js";
+import type { CapturedRequest } from "../browser/capture.js";
+import { itemsFromArray } from "../extract/json.js";
+import { searchTerm } from "./common.js";
+
+const PER_PAGE = 48;
+
+const APP_ID_RE = /(?:appId|applicationId|app_id|ALGOLIA_APP(?:LICATION)?_ID)["']?\s*[:=]\s*["']([A-Z0-9]{10})["']/i;
+const API_KEY_RE = /(?:apiKey|searchApiKey|search_api_key|ALGOLIA_(?:SEARCH_)?API_KEY)["']?\s*[:=]\s*["']([a-f0-9]{32})["']/i;
+const INDEX_RE = /(?:indexName|index_name|ALGOLIA_INDEX(?:_NAME)?)["']?\s*[:=]\s*["']([\w.-]+)["']/i;
+
+// `params` is a query string ("query=x&page=0") or, in newer clients, an object
+function withPage(params: any, page: number) {
+  if (params && typeof params === "object") return { ...params, page };
+  const p = new URLSearchParams(String(params ?? ""));
+  p.set("page", String(page));
+  return p.toString();
+}
+
+// every query a call carries: GET params, one body, or a multi-index `requests` array
+function queriesOf(req: CapturedRequest): Record<string, any>[] {
+  const params = (p: any) => (p && typeof p === "object" ? p : Object.fromEntries(new URLSearchParams(String(p ?? ""))));
+  if (!req.body) return [Object.fromEntries(new URL(req.url).searchParams)];
+  try {
+    const body = JSON.parse(req.body);
+    return (Array.isArray(body.requests) ? body.requests : [body]).map((r: any) => ({ ...r, ...params(r.params) }));
+  } catch {
+    return [];
+  }
+}
+
+// facetFilters=[["categories:jackets"]] (a JSON string in `params`), filters="…"
+const isSet = (v: any) => v != null && v !== "" && v !== "[]" && !(Array.isArray(v) && !v.length);
+
+export const algolia: SearchProvider = {
+  name: "algolia",
+  signals: /algoliasearch|algolia(?:net)?\.(?:net|com)/i,
+  endpoint: /\.(?:algolia\.net|algolianet\.com)\/1\/indexes\//i,
+
+  fromPage(html, url) {
+    const q = searchTerm(url);
+    const appId = html.match(APP_ID_RE)?.[1];
+    const apiKey = html.match(API_KEY_RE)?.[1];
+    const index = html.match(INDEX_RE)?.[1];
+    if (!q || !appId || !apiKey || !index) return null;
+    return {
+      url: `https://${appId.toLowerCase()}-dsn.algolia.net/1/indexes/${encodeURIComponent(index)}/query`,
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-algolia-application-id": appId,
+        "x-algolia-api-key": apiKey,
+      },
+      body: JSON.stringify({ params: new URLSearchParams({ query: q, hitsPerPage: String(PER_PAGE) }).toString() }),
+    };
+  },
+
+  scope(req) {
+    const qs = queriesOf(req);
+    return {
+      query: String(qs.map((q) => q.query).find((v) => isSet(v)) ?? "").trim(),
+      filtered: qs.some((q) => ["facetFilters", "filters", "numericFilters", "tagFilters"].some((k) => isSet(q[k]))),
+      size: Math.max(0, ...qs.map((q) => Number(q.hitsPerPage) || 0)),
+    };
+  },
+
+  // Algolia pages are 0-based; multi-index calls (/*/queries) page every query
+  page(req, n) {
+    if (!req.body) {
+      const u = new URL(req.url);
+      u.searchParams.set("page", String(n - 1));
+      return { ...req, url: u.toString() };
+    }
+    try {
+      const body = JSON.parse(req.body);
+      if (Array.isArray(body.requests)) {
+        body.requests = body.requests.map((r: any) => ({ ...r, params: withPage(r.params, n - 1) }));
+      } else {
+        body.params = withPage(body.params, n - 1);
+      }
+      return { ...req, body: JSON.stringify(body) };
+    } catch {
+      return req;
+    }
+  },
+
+  // records are the store's own schema: fields are guessed like captured JSON
+  parse(data, base, ctx) {
+    const results: any[] = Array.isArray(data?.results) ? data.results : [data];
+    const best = results
+      .filter((r) => Array.isArray(r?.hits))
+      .sort((a, b) => b.hits.length - a.hits.length)[0];
+    if (!best) return null;
+    return { items: itemsFromArray(best.hits, base, ctx), total: Number(best.nbHits) || undefined };
+  },
+};
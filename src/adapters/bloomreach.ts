@@ -0,0 +1,77 @@
+// src/adapters/bloomreach.ts
+import type { SearchProvider } from "./search.js";
+import type { PriceContext } from "../extract/price.js";
+import { absUrl } from "../extract/urls.js";
+import { amountFields, htmlText, searchTerm } from "./common.js";
+
+const PER_PAGE = 48;
+const FIELDS = "pid,title,url,price,sale_price,thumb_image,brand,sku";
+
+/** One Bloomreach Discovery doc → our item shape. */
+export function bloomreachItem(d: any, base: string, ctx: PriceContext) {
+  const onSale = d.sale_price != null && d.sale_price !== "" && Number(d.sale_price) < Number(d.price);
+  return {
+    title: htmlText(d.title),
+    href: absUrl(d.url, base),
+    image: absUrl(d.thumb_image, base),
+    ...amountFields(onSale ? d.sale_price : d.price, ctx, onSale ? d.price : undefined),
+    brand: d.brand || undefined,
+    sku: d.sku || undefined,
+    productId: d.pid,
+  };
+}
+
+export const bloomreach: SearchProvider = {
+  name: "bloomreach",
+  signals: /brsrvr\.com|dxpapi\.com|\bbr_data\b|bloomreach/i,
+  endpoint: /(?:dxpapi\.com|brsrvr\.com)\/api\/v1\/core\//i,
+
+  // br_data carries the account; the domain key is only sometimes on the page
+  fromPage(html, url) {
+    const q = searchTerm(url);
+    const account = html.match(/acct_id["']?\s*[:=]\s*["']?(\d{4,})/i)?.[1];
+    const domain = html.match(/domain_key["']?\s*[:=]\s*["']([\w-]+)["']/i)?.[1];
+    if (!q || !account || !domain) return null;
+    const qs = new URLSearchParams({
+      account_id: account,
+      domain_key: domain,
+      request_type: "search",
+      search_type: "keyword",
+      q,
+      rows: String(PER_PAGE),
+      start: "0",
+      fl: FIELDS,
+      url,
+    });
+    return { url: `https://core.dxpapi.com/api/v1/core/?${qs}` };
+  },
+
+  // category pages: search_type=category (q is the category id), or fq= filters
+  scope(req) {
+    const u = new URL(req.url);
+    const category = u.searchParams.get("search_type") === "category";
+    return {
+      query: category ? "" : (u.searchParams.get("q") || "").trim(),
+      filtered: category || u.searchParams.getAll("fq").some(Boolean),
+      size: Number(u.searchParams.get("rows")) || 0,
+    };
+  },
+
+  // rows / start, not page numbers
+  page(req, n) {
+    const u = new URL(req.url);
+    const rows = Number(u.searchParams.get("rows")) || PER_PAGE;
+    u.searchParams.set("rows", String(rows));
+    u.searchParams.set("start", String((n - 1) * rows));
+    return { ...req, url: u.toString() };
+  },
+
+  parse(data, base, ctx) {
+    const res = data?.response;
+    if (!Array.isArray(res?.docs)) return null;
+    return {
+      items: res.docs.map((d: any) => bloomreachItem(d, base, ctx)),
+      total: Number(res.numFound) || undefined,
+    };
+  },
+};
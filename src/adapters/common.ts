@@ -0,0 +1,43 @@
+// src/adapters/common.ts (mapping helpers shared by the adapters)
+import { load } from "cheerio";
+import { priceInfoFromOffers, PriceContext, PriceInfo } from "../extract/price.js";
+
+/** Plain text of an HTML fragment (descriptions, entity-encoded names). */
+export function htmlText(html: any): string | undefined {
+  if (html == null || html === "") return undefined;
+  const t = load(String(html)).text().replace(/\s+/g, " ").trim();
+  return t || undefined;
+}
+
+/** `price` the way DOM items carry it ("CAD 20.00") next to `priceInfo`. */
+export function priceFields(info: PriceInfo | null | undefined): { price?: string; priceInfo?: PriceInfo } {
+  if (!info) return {};
+  return { price: info.currency ? `${info.currency} ${info.text}` : info.text, priceInfo: info };
+}
+
+/**
+ * A bare amount (19.99 or "19.99") → price fields in `currency` or the
+ * page's; `was` becomes compareAt when it's higher.
+ */
+export function amountFields(amount: any, ctx: PriceContext, was?: any, currency?: string | null) {
+  const info = priceInfoFromOffers({ price: amount, priceCurrency: currency || undefined }, undefined, ctx);
+  const regular = was == null || was === "" ? NaN : Number(was);
+  if (info?.amount != null && Number.isFinite(regular) && regular > info.amount) {
+    return priceFields({ ...info, compareAt: regular });
+  }
+  return priceFields(info);
+}
+
+/** What a search page's URL searches for (?q=, ?query=, ?s=…); "" when it isn't one. */
+export function searchTerm(url: string): string {
+  try {
+    const p = new URL(url).searchParams;
+    for (const k of ["q", "query", "s", "search", "term", "keyword", "keywords", "text"]) {
+      const v = (p.get(k) || "").trim();
+      if (v) return v;
+    }
+  } catch {
+    // not a URL
+  }
+  return "";
+}
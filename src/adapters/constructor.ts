@@ -0,0 +1,63 @@
+// src/adapters/constructor.ts
+import type { SearchProvider } from "./search.js";
+import type { PriceContext } from "../extract/price.js";
+import { absUrl } from "../extract/urls.js";
+import { amountFields, htmlText, searchTerm } from "./common.js";
+
+const PER_PAGE = 48;
+
+/** One Constructor.io result ({ value, data }) → our item shape. */
+export function constructorItem(r: any, base: string, ctx: PriceContext) {
+  const d = r?.data || {};
+  const onSale = d.sale_price != null && d.sale_price !== "";
+  return {
+    title: htmlText(r.value),
+    href: absUrl(d.url, base),
+    image: absUrl(d.image_url, base),
+    ...amountFields(onSale ? d.sale_price : d.price, ctx, d.list_price ?? (onSale ? d.price : undefined)),
+    brand: d.brand || undefined,
+    sku: d.sku || undefined,
+    productId: d.id,
+  };
+}
+
+export const constructorIo: SearchProvider = {
+  name: "constructor",
+  signals: /cnstrc\.com|constructorio|constructor-io/i,
+  endpoint: /cnstrc\.com\/(?:search|browse)\//i,
+
+  fromPage(html, url) {
+    const q = searchTerm(url);
+    const key = html.match(/\bkey_[A-Za-z0-9]{10,}\b/)?.[0];
+    if (!q || !key) return null;
+    const qs = new URLSearchParams({ key, num_results_per_page: String(PER_PAGE) });
+    return { url: `https://ac.cnstrc.com/search/${encodeURIComponent(q)}?${qs}` };
+  },
+
+  // /search/<term>, or /browse/<filter_name>/<value> on category pages
+  scope(req) {
+    const u = new URL(req.url);
+    const [, what, term] = u.pathname.match(/\/(search|browse)\/([^/]+)/i) ?? [];
+    const query = what?.toLowerCase() === "search" && term ? decodeURIComponent(term).trim() : "";
+    return {
+      query,
+      filtered: what?.toLowerCase() === "browse" || [...u.searchParams.keys()].some((k) => /^filters\[/i.test(k)),
+      size: Number(u.searchParams.get("num_results_per_page")) || 0,
+    };
+  },
+
+  page(req, n) {
+    const u = new URL(req.url);
+    u.searchParams.set("page", String(n));
+    return { ...req, url: u.toString() };
+  },
+
+  parse(data, base, ctx) {
+    const res = data?.response;
+    if (!Array.isArray(res?.results)) return null;
+    return {
+      items: res.results.map((r: any) => constructorItem(r, base, ctx)),
+      total: Number(res.total_num_results) || undefined,
+    };
+  },
+};
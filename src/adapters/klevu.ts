@@ -0,0 +1,117 @@
+// src/adapters/klevu.ts
+import type { SearchProvider } from "./search.js";
+import type { PriceContext } from "../extract/price.js";
+import { absUrl } from "../extract/urls.js";
+import { amountFields, htmlText, searchTerm } from "./common.js";
+
+const PER_PAGE = 48;
+
+/** One Klevu record → our item shape. `salePrice` is what's charged, `price` the regular one. */
+export function klevuItem(r: any, base: string, ctx: PriceContext) {
+  return {
+    title: htmlText(r.name),
+    href: absUrl(r.url, base),
+    image: absUrl(r.imageUrl || r.image, base),
+    ...amountFields(r.salePrice || r.price, ctx, r.price, r.currency),
+    brand: r.brand || undefined,
+    sku: r.sku || undefined,
+    productId: r.id,
+  };
+}
+
+export const klevu: SearchProvider = {
+  name: "klevu",
+  signals: /klevu|ksearchnet\.com/i,
+  // v2 JSON API, and the older n-search GET endpoint
+  endpoint: /ksearchnet\.com\/(?:cs\/v2\/search|cloud-search\/n-search\/search)/i,
+
+  fromPage(html, url) {
+    const q = searchTerm(url);
+    const apiKey = html.match(/\bklevu-\d{6,}\b/)?.[0];
+    const host = html.match(/\b([a-z0-9-]+\.ksearchnet\.com)\b/i)?.[1];
+    if (!q || !apiKey || !host) return null;
+    return {
+      url: `https://${host}/cs/v2/search`,
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        context: { apiKeys: [apiKey] },
+        recordQueries: [
+          {
+            id: "productList",
+            typeOfRequest: "SEARCH",
+            settings: { query: { term: q }, typeOfRecords: ["KLEVU_PRODUCT"], limit: PER_PAGE, offset: 0 },
+          },
+        ],
+      }),
+    };
+  },
+
+  // "*" is Klevu's match-all term; CATNAV requests and applyFilters narrow to a category
+  scope(req) {
+    const term = (t: any) => (t == null || String(t).trim() === "*" ? "" : String(t).trim());
+    if (!req.body) {
+      const u = new URL(req.url);
+      return {
+        query: term(u.searchParams.get("term")),
+        filtered: [...u.searchParams.keys()].some((k) => /filter|category/i.test(k)),
+        size: Number(u.searchParams.get("noOfResults")) || 0,
+      };
+    }
+    try {
+      const all: any[] = (JSON.parse(req.body).recordQueries || []).filter((q: any) => q?.settings);
+      const listed = all.filter((q) => q.id === "productList" || q.settings.typeOfRecords?.includes("KLEVU_PRODUCT"));
+      const products = listed.length ? listed : all;
+      return {
+        query: term(products.map((q) => term(q.settings.query?.term)).find(Boolean)),
+        filtered: products.some(
+          (q) =>
+            q.typeOfRequest === "CATNAV" ||
+            q.settings.query?.categoryPath ||
+            (q.filters?.applyFilters?.filters ?? []).length
+        ),
+        size: Math.max(0, ...products.map((q) => Number(q.settings.limit) || 0)),
+      };
+    } catch {
+      return { query: "", filtered: false, size: 0 };
+    }
+  },
+
+  // offsets, not page numbers: v2 settings.offset, v1 paginationStartsFrom
+  page(req, n) {
+    if (!req.body) {
+      const u = new URL(req.url);
+      const per = Number(u.searchParams.get("noOfResults")) || PER_PAGE;
+      u.searchParams.set("noOfResults", String(per));
+      u.searchParams.set("paginationStartsFrom", String((n - 1) * per));
+      return { ...req, url: u.toString() };
+    }
+    try {
+      const body = JSON.parse(req.body);
+      for (const q of body.recordQueries || []) {
+        if (!q?.settings) continue;
+        const per = Number(q.settings.limit) || PER_PAGE;
+        q.settings.limit = per;
+        q.settings.offset = (n - 1) * per;
+      }
+      return { ...req, body: JSON.stringify(body) };
+    } catch {
+      return req;
+    }
+  },
+
+  parse(data, base, ctx) {
+    // v2: the product query (autocomplete pages also ask for categories / CMS pages)
+    const queries: any[] = Array.isArray(data?.queryResults)
+      ? data.queryResults.filter((q: any) => Array.isArray(q?.records))
+      : [];
+    const v2 = queries.find((q) => q.id === "productList") ?? queries.sort((a, b) => b.records.length - a.records.length)[0];
+    const records = v2 ? v2.records : data?.result;
+    if (!Array.isArray(records)) return null;
+    const meta = v2 ? v2.meta : data.meta;
+    return {
+      items: records.map((r: any) => klevuItem(r, base, ctx)),
+      total: Number(meta?.totalResultsFound) || undefined,
+    };
+  },
+};
@@ -0,0 +1,227 @@
+// src/adapters/search.ts
+import { load } from "cheerio";
+import type { Adapter, AdapterOpts, AdapterResult } from "./adapters.js";
+import type { CapturedRequest } from "../browser/capture.js";
+import { fetchJson } from "../browser/http.js";
+import { politeGate } from "../browser/polite.js";
+import { priceContextFromDoc, PriceContext } from "../extract/price.js";
+import { searchspring } from "./searchspring.js";
+import { algolia } from "./algolia.js";
+import { klevu } from "./klevu.js";
+import { constructorIo } from "./constructor.js";
+import { bloomreach } from "./bloomreach.js";
+import { searchTerm } from "./common.js";
+import { DEFAULT_CARD_SELECTORS } from "../steps/exhaust.js";
+import { log } from "../log.js";
+
+/* ========================= types ========================= */
+
+export type SearchPage = {
+  items: any[];
+  total?: number; // results across all pages, when the API says
+};
+
+/** What a recorded call asks for: a term, a category / facet filter, a page size. */
+export type SearchScope = {
+  query: string; // "" for match-all
+  filtered: boolean;
+  size: number; // requested page size; 0 when unset
+};
+
+/**
+ * A hosted search / merchandising API the storefront calls from the
+ * browser. The adapter replays the page's own call (or one built from
+ * page globals on search pages) and walks its pagination parameters.
+ */
+export type SearchProvider = {
+  name: string;
+  signals: RegExp; // script URLs / globals in the page HTML
+  endpoint: RegExp; // the API's request URL
+  fromPage(html: string, url: string): CapturedRequest | null;
+  scope(req: CapturedRequest): SearchScope;
+  page(req: CapturedRequest, n: number): CapturedRequest; // same query, page n (1-based)
+  parse(data: any, base: string, ctx: PriceContext): SearchPage | null; // null = not its response shape
+};
+
+const PROVIDERS: SearchProvider[] = [searchspring, algolia, klevu, constructorIo, bloomreach];
+
+export const SEARCH_PROVIDER_NAMES = PROVIDERS.map((p) => p.name);
+
+/* ========================= detection ========================= */
+
+/** Is this a request to any provider's API (what the engine records)? */
+export function isSearchRequest(url: string) {
+  return PROVIDERS.some((p) => p.endpoint.test(url));
+}
+
+/**
+ * The provider whose API the page called (`requests`), else the one whose
+ * scripts / globals it carries. A secondary signal: the page kind stays.
+ */
+export function detectSearchProvider(html: string, requests: string[] = []): string | null {
+  const called = PROVIDERS.find((p) => requests.some((r) => p.endpoint.test(r)));
+  if (called) return called.name;
+  return PROVIDERS.find((p) => p.signals.test(html))?.name ?? null;
+}
+
+/* ========================= run ========================= */
+
+// pathnames of the links inside product cards, for "is this API answering for this page"
+function domCardPaths(html: string, base: string): Set<string> {
+  const $ = load(html || "");
+  const paths = new Set<string>();
+  $(DEFAULT_CARD_SELECTORS.join(", "))
+    .find("a[href]")
+    .addBack("a[href]")
+    .each((_, a) => {
+      const path = pathOf($(a).attr("href"), base);
+      if (path && path !== "/") paths.add(path);
+    });
+  return paths;
+}
+
+function pathOf(href: any, base: string) {
+  try {
+    return new URL(String(href), base).pathname.replace(/\/+$/, "") || "/";
+  } catch {
+    return null;
+  }
+}
+
+async function scrapeSearch(p: SearchProvider, req: CapturedRequest, url: string, opts: AdapterOpts): Promise<AdapterResult | null> {
+  const ctx = priceContextFromDoc(load(opts.html || ""));
+  const cards = domCardPaths(opts.html, url);
+  const seen = new Set<string>();
+  const items: any[] = [];
+  let pages = 0;
+  let stopReason = "max-pages";
+
+  for (let n = 1; n <= opts.maxPages; n++) {
+    const r = p.page(req, n);
+    await politeGate(r.url, opts.config, log);
+    const res = await fetchJson(r.url, opts.config, r);
+    log.debug(`[${p.name}] ${res.status} ${res.contentType || "?"} ← ${r.method ?? "GET"} ${r.url}`);
+    const parsed = res.status === 200 && res.data ? p.parse(res.data, url, ctx) : null;
+    if (!parsed) {
+      // keys rotated / origin-locked / unexpected shape on page 1 → DOM; later pages keep what we have
+      if (n === 1) {
+        log.info(`[${p.name}] ${r.url} → ${res.status}${res.data ? "" : ", not JSON"}; API unavailable`);
+        return null;
+      }
+      stopReason = `status-${res.status}`;
+      break;
+    }
+    if (!parsed.items.length) {
+      stopReason = "empty";
+      break;
+    }
+
+    // an API that ignores the page parameter answers page 1 again
+    const fresh = parsed.items.filter((it) => {
+      const key = it.href || it.title;
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (!fresh.length) {
+      stopReason = "repeat";
+      break;
+    }
+    // the cards already on the page say which call renders them
+    const linked = fresh.filter((it) => it.href);
+    if (n === 1 && cards.size >= 2 && linked.length && !linked.some((it) => cards.has(pathOf(it.href, url) ?? ""))) {
+      log.info(`[${p.name}] ${r.url}: none of its hits are the page's ${cards.size} cards; not the page's own call`);
+      return null;
+    }
+    pages = n;
+    items.push(...fresh.map((it) => ({ ...it, page: n })));
+
+    if (parsed.total != null && seen.size >= parsed.total) {
+      stopReason = "last-page";
+      break;
+    }
+  }
+  return { adapter: p.name, endpoint: p.page(req, 1).url, items, pages, stopReason };
+}
+
+// URL + body with %xx runs decoded, for a loose "is this a typeahead call" test
+function requestText(r: CapturedRequest) {
+  return `${r.url} ${r.body ?? ""}`
+    .replace(/\+/g, " ")
+    .replace(/(%[0-9a-f]{2})+/gi, (m) => {
+      try {
+        return decodeURIComponent(m);
+      } catch {
+        return m;
+      }
+    })
+    .toLowerCase();
+}
+
+// typeahead endpoints / indexes (Algolia *_query_suggestions, Klevu autoComplete…)
+const SUGGEST_RE = /autocomplete|auto_complete|autosuggest|suggest|typeahead|predictive/i;
+
+/**
+ * The recorded calls worth replaying, best first. Typeahead calls and
+ * match-all warm-ups (no term, no filter: the whole catalogue) are out.
+ * A search page wants the call carrying its ?q=; a category page the
+ * filtered call, else one with a term. Ties go to the biggest page size,
+ * then the last call made (the one that rendered the grid).
+ */
+function pickRequests(p: SearchProvider, url: string, opts: AdapterOpts): CapturedRequest[] {
+  let calls = (opts.requests ?? []).filter((r) => p.endpoint.test(r.url) && !SUGGEST_RE.test(requestText(r)));
+  calls = calls.filter((r, i) => calls.findIndex((o) => o.url === r.url && o.body === r.body) === i);
+  const term = searchTerm(url).toLowerCase();
+  const scoped = calls
+    .map((req, i) => ({ req, i, ...p.scope(req) }))
+    .filter((c) => (term ? c.query.toLowerCase() === term : c.query || c.filtered));
+  for (const c of scoped) log.debug(`[${p.name}] candidate ${c.req.url}: "${c.query}"${c.filtered ? " filtered" : ""}, size ${c.size}`);
+  return scoped
+    .sort((a, b) => Number(b.filtered) - Number(a.filtered) || b.size - a.size || b.i - a.i)
+    .map((c) => c.req);
+}
+
+// og:type product / a JSON-LD Product with no list around it: one product, no grid to replace
+function isProductPage(html: string) {
+  const $ = load(html || "");
+  if (/product/i.test($("meta[property='og:type']").attr("content") || "")) return true;
+  const types: string[] = [];
+  $("script[type='application/ld+json']").each((_, s) => {
+    try {
+      const parsed = JSON.parse($(s).contents().text());
+      for (const node of [parsed, parsed?.["@graph"]].flat(2)) {
+        if (node && typeof node === "object") types.push(...[node["@type"]].flat().map(String));
+      }
+    } catch {
+      /* ignore malformed ld-json */
+    }
+  });
+  return types.includes("Product") && !types.some((t) => /ItemList|CollectionPage|SearchResultsPage|OfferCatalog/.test(t));
+}
+
+// a provider as an adapter: listing and search pages, recorded calls first, page globals next
+function searchAdapter(p: SearchProvider): Adapter {
+  return {
+    name: p.name,
+    kinds: ["retail", "shopify", "bigcommerce", "woocommerce", "generic"],
+    async scrape(url, opts) {
+      if (!searchTerm(url) && isProductPage(opts.html)) {
+        log.debug(`[${p.name}] a product page: its search calls aren't its content`);
+        return null;
+      }
+      const calls = pickRequests(p, url, opts);
+      for (const req of calls) {
+        const res = await scrapeSearch(p, req, url, opts);
+        if (res) return res;
+      }
+      const built = calls.length ? null : p.fromPage(opts.html, url);
+      if (!built) {
+        log.debug(`[${p.name}] no API call for this page recorded and nothing on the page to build one from`);
+        return null;
+      }
+      return scrapeSearch(p, built, url, opts);
+    },
+  };
+}
+
+export const SEARCH_ADAPTERS: Adapter[] = PROVIDERS.map(searchAdapter);
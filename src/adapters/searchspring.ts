@@ -0,0 +1,71 @@
+// src/adapters/searchspring.ts
+import type { SearchProvider } from "./search.js";
+import type { PriceContext } from "../extract/price.js";
+import { absUrl } from "../extract/urls.js";
+import { amountFields, htmlText, searchTerm } from "./common.js";
+
+const PER_PAGE = 48;
+
+// snap.searchspring.io/<siteId>/bundle.js, searchspring.catalog.js?<siteId>, siteId: "<siteId>"
+function siteIdOf(html: string): string | null {
+  const m =
+    html.match(/snap\.searchspring\.io\/([a-z0-9]{6})\//i) ||
+    html.match(/searchspring\.catalog\.js\?([a-z0-9]{6})\b/i) ||
+    html.match(/\b([a-z0-9]{6})\.a\.searchspring\.io/i) ||
+    html.match(/siteId["']?\s*[:=]\s*["']([a-z0-9]{6})["']/i);
+  return m ? m[1].toLowerCase() : null;
+}
+
+/** One `results[]` entry (resultsFormat=native) → our item shape. */
+export function searchspringItem(r: any, base: string, ctx: PriceContext) {
+  return {
+    title: htmlText(r.name),
+    href: absUrl(r.url, base),
+    image: absUrl(r.imageUrl || r.thumbnailImageUrl, base),
+    ...amountFields(r.price, ctx, r.msrp),
+    brand: r.brand || undefined,
+    sku: r.sku || undefined,
+    productId: r.uid ?? r.id,
+  };
+}
+
+export const searchspring: SearchProvider = {
+  name: "searchspring",
+  signals: /searchspring\.(io|net)|SearchSpring\.Catalog/i,
+  endpoint: /\.searchspring\.io\/api\/search\/search\.json/i,
+
+  fromPage(html, url) {
+    const q = searchTerm(url);
+    const siteId = siteIdOf(html);
+    if (!q || !siteId) return null;
+    const qs = new URLSearchParams({ siteId, q, resultsFormat: "native", resultsPerPage: String(PER_PAGE) });
+    return { url: `https://${siteId}.a.searchspring.io/api/search/search.json?${qs}` };
+  },
+
+  // category pages filter the whole catalogue: bgfilter.categories_hierarchy=…, filter.<field>=…
+  scope(req) {
+    const u = new URL(req.url);
+    return {
+      query: (u.searchParams.get("q") || "").trim(),
+      filtered: [...u.searchParams.keys()].some((k) => /^(?:bg)?filter\./i.test(k)),
+      size: Number(u.searchParams.get("resultsPerPage")) || 0,
+    };
+  },
+
+  page(req, n) {
+    const u = new URL(req.url);
+    // the page's own calls are often JSONP
+    u.searchParams.delete("callback");
+    u.searchParams.delete("_");
+    u.searchParams.set("page", String(n));
+    return { ...req, url: u.toString() };
+  },
+
+  parse(data, base, ctx) {
+    if (!Array.isArray(data?.results)) return null;
+    return {
+      items: data.results.map((r: any) => searchspringItem(r, base, ctx)),
+      total: Number(data.pagination?.totalResults) || undefined,
+    };
+  },
+};
@@ -0,0 +1,213 @@
+// src/adapters/shopify.ts
+import { load } from "cheerio";
+import type { Adapter, AdapterOpts, AdapterResult } from "./adapters.js";
+import { fetchJson } from "../browser/http.js";
+import { politeGate } from "../browser/polite.js";
+import { priceContextFromDoc, priceInfoFromOffers, PriceContext, PriceInfo } from "../extract/price.js";
+import { absUrl } from "../extract/urls.js";
+import { htmlText, priceFields } from "./common.js";
+import { log } from "../log.js";
+
+/* ========================= types ========================= */
+
+export type ShopifyTarget = {
+  type: "collection" | "product";
+  handle: string;
+  base: string; // origin + market prefix ("/en-ca"), no trailing slash
+  sortBy?: string; // collection ?sort_by=, passed on to products.json
+};
+
+type Variant = {
+  id?: number;
+  title?: string;
+  sku?: string;
+  price: number | null;
+  compareAt?: number;
+  available: boolean;
+  options: string[];
+};
+
+const PAGE_LIMIT = 250; // products.json caps `limit` here
+
+/* ========================= urls ========================= */
+
+/**
+ * /collections/<handle> → products.json pages, in the URL's ?sort_by=
+ * order; /products/<handle> (also under a collection) → <handle>.js. Tag
+ * paths, storefront filters and a later ?page= are left to the DOM:
+ * products.json can't express the first two, and its 250-item pages don't
+ * line up with the theme's.
+ */
+export function shopifyTarget(url: string): ShopifyTarget | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return null;
+  }
+  const m = u.pathname.match(/^((?:\/[a-z]{2}(?:-[a-z]{2})?)?)\/(collections|products)\/([^/]+)(?:\/(.*?))?\/?$/i);
+  if (!m) return null;
+  const [, prefix, what, handle, rest] = m;
+  const base = u.origin + prefix;
+
+  if (what.toLowerCase() === "products") return rest ? null : { type: "product", handle, base };
+  const nested = rest?.match(/^products\/([^/]+)$/i);
+  if (nested) return { type: "product", handle: nested[1], base };
+  if (rest) return null;
+  if ([...u.searchParams.keys()].some((k) => /^filter\.|^q$/i.test(k))) return null;
+  if (Number(u.searchParams.get("page")) > 1) return null;
+  const sortBy = u.searchParams.get("sort_by")?.trim();
+  return { type: "collection", handle, base, ...(sortBy ? { sortBy } : {}) };
+}
+
+/* ========================= mapping ========================= */
+
+// products.json prices are "19.99" strings; <handle>.js prices are cents
+function money(v: any, cents: boolean): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  if (!Number.isFinite(n)) return null;
+  return cents ? n / 100 : n;
+}
+
+function variantsOf(p: any, cents: boolean): Variant[] {
+  return (Array.isArray(p.variants) ? p.variants : []).map((v: any): Variant => {
+    const price = money(v.price, cents);
+    const was = money(v.compare_at_price, cents);
+    return {
+      id: v.id,
+      title: v.title,
+      sku: v.sku || undefined,
+      price,
+      ...(was != null && price != null && was > price ? { compareAt: was } : {}),
+      available: v.available !== false,
+      options: Array.isArray(v.options) ? v.options : [v.option1, v.option2, v.option3].filter((o) => o != null),
+    };
+  });
+}
+
+// what a shopper pays now: the cheapest variant in stock (any variant when none is)
+function priceOf(variants: Variant[], ctx: PriceContext): PriceInfo | undefined {
+  const priced = variants.filter((v) => v.price != null);
+  if (!priced.length) return undefined;
+  const inStock = priced.filter((v) => v.available);
+  const pick = [...(inStock.length ? inStock : priced)].sort((a, b) => a.price! - b.price!)[0];
+
+  const info = priceInfoFromOffers({ price: pick.price!.toFixed(2) }, undefined, ctx);
+  if (!info) return undefined;
+  const amounts = priced.map((v) => v.price!);
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  return {
+    ...info,
+    ...(pick.compareAt != null ? { compareAt: pick.compareAt } : {}),
+    ...(min !== max ? { min, max } : {}),
+  };
+}
+
+/** One products.json / <handle>.js product → our item shape (+ Shopify extras). */
+export function shopifyItem(p: any, base: string, ctx: PriceContext, cents = false) {
+  const variants = variantsOf(p, cents);
+  const priceInfo = priceOf(variants, ctx);
+  const images = (Array.isArray(p.images) ? p.images : [])
+    .map((img: any) => absUrl(typeof img === "string" ? img : img?.src, base))
+    .filter(Boolean) as string[];
+  const tags = Array.isArray(p.tags)
+    ? p.tags.map(String)
+    : String(p.tags || "").split(",").map((t) => t.trim()).filter(Boolean);
+
+  return {
+    title: p.title,
+    href: `${base}/products/${p.handle}`,
+    image: images[0] ?? absUrl(p.featured_image, base),
+    ...priceFields(priceInfo),
+    description: htmlText(p.body_html ?? p.description),
+    vendor: p.vendor || undefined,
+    productType: p.product_type || p.type || undefined,
+    tags,
+    available: variants.some((v) => v.available),
+    variants,
+    images,
+    productId: p.id,
+    handle: p.handle,
+  };
+}
+
+// Shopify.currency.active is the shopper's presentment currency; JSON-LD / meta next
+function storeContext(html: string): PriceContext {
+  const ctx = priceContextFromDoc(load(html || ""));
+  const active = (html || "").match(/Shopify\.currency\s*=\s*\{[^}]*?"active"\s*:\s*"([A-Za-z]{3})"/);
+  return active ? { ...ctx, currency: active[1].toUpperCase() } : ctx;
+}
+
+/* ========================= endpoints ========================= */
+
+async function getJson(endpoint: string, opts: AdapterOpts) {
+  await politeGate(endpoint, opts.config, log);
+  const res = await fetchJson(endpoint, opts.config);
+  log.debug(`[shopify] ${res.status} ${res.contentType || "?"} ← ${endpoint}`);
+  return res;
+}
+
+async function scrapeCollection(t: ShopifyTarget, opts: AdapterOpts): Promise<AdapterResult | null> {
+  const ctx = storeContext(opts.html);
+  const sort = t.sortBy ? `&sort_by=${encodeURIComponent(t.sortBy)}` : "";
+  const endpointFor = (page: number) =>
+    `${t.base}/collections/${t.handle}/products.json?limit=${PAGE_LIMIT}${sort}&page=${page}`;
+  const first = endpointFor(1);
+  const items: any[] = [];
+  let pages = 0;
+  let stopReason = "max-pages";
+
+  for (let n = 1; n <= opts.maxPages; n++) {
+    const endpoint = endpointFor(n);
+    const res = await getJson(endpoint, opts);
+    const products = res.data?.products;
+    if (res.status !== 200 || !Array.isArray(products)) {
+      // disabled / password page / bot wall on page 1 → DOM; later pages keep what we have
+      if (n === 1) {
+        log.info(`[shopify] ${endpoint} → ${res.status}${res.data ? "" : ", not JSON"}; endpoint unavailable`);
+        return null;
+      }
+      stopReason = `status-${res.status}`;
+      break;
+    }
+    if (!products.length) {
+      stopReason = "empty";
+      break;
+    }
+    pages = n;
+    items.push(...products.map((p: any) => ({ ...shopifyItem(p, t.base, ctx), page: n })));
+    if (products.length < PAGE_LIMIT) {
+      stopReason = "last-page";
+      break;
+    }
+  }
+  return { adapter: "shopify", endpoint: first, items, pages, stopReason };
+}
+
+async function scrapeProduct(t: ShopifyTarget, opts: AdapterOpts): Promise<AdapterResult | null> {
+  const endpoint = `${t.base}/products/${t.handle}.js`;
+  const res = await getJson(endpoint, opts);
+  if (res.status !== 200 || !Array.isArray(res.data?.variants)) {
+    log.info(`[shopify] ${endpoint} → ${res.status}${res.data ? "" : ", not JSON"}; endpoint unavailable`);
+    return null;
+  }
+  const item = shopifyItem(res.data, t.base, storeContext(opts.html), true);
+  return { adapter: "shopify", endpoint, items: [{ ...item, page: 1 }], pages: 1, stopReason: "product" };
+}
+
+/* ========================= adapter ========================= */
+
+export const shopifyAdapter: Adapter = {
+  name: "shopify",
+  kinds: ["shopify"],
+  async scrape(url, opts) {
+    const t = shopifyTarget(url);
+    if (!t) {
+      log.debug(`[shopify] no collection / product handle in ${url}`);
+      return null;
+    }
+    return t.type === "collection" ? scrapeCollection(t, opts) : scrapeProduct(t, opts);
+  },
+};
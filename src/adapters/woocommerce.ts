@@ -0,0 +1,178 @@
+// src/adapters/woocommerce.ts
+import type { Adapter, AdapterOpts, AdapterResult } from "./adapters.js";
+import { fetchJson, HttpJson } from "../browser/http.js";
+import { politeGate } from "../browser/polite.js";
+import type { PriceInfo } from "../extract/price.js";
+import { absUrl } from "../extract/urls.js";
+import { htmlText, priceFields } from "./common.js";
+import { log } from "../log.js";
+
+/* ========================= types ========================= */
+
+export type WooTarget = {
+  base: string; // origin + WordPress path prefix, no trailing slash
+  params: Record<string, string>; // Store API filters: category, search, slug
+};
+
+const PER_PAGE = 100; // Store API caps per_page here
+const ROUTE = "/wc/store/v1/products";
+
+/* ========================= urls ========================= */
+
+/**
+ * /product-category/<…>/<slug> → category, ?s=… → search, /product/<slug>
+ * → that product, /shop or ?post_type=product → everything. The path in
+ * front of those is the WordPress install (subdirectory sites).
+ */
+export function wooTarget(url: string): WooTarget | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return null;
+  }
+  const path = u.pathname.replace(/\/page\/\d+\/?$/, "").replace(/\/+$/, "");
+  const search = (u.searchParams.get("s") || "").trim();
+  const at = (prefix: string, params: Record<string, string>): WooTarget => ({
+    base: u.origin + prefix,
+    params: search ? { ...params, search } : params,
+  });
+
+  const cat = path.match(/^(.*?)\/product-category\/(?:[^/]+\/)*([^/]+)$/);
+  if (cat) return at(cat[1], { category: decodeURIComponent(cat[2]) });
+  const one = path.match(/^(.*?)\/product\/([^/]+)$/);
+  if (one) return { base: u.origin + one[1], params: { slug: decodeURIComponent(one[2]) } };
+  const shop = path.match(/^(.*?)\/shop$/);
+  if (shop) return at(shop[1], {});
+  if (search || u.searchParams.get("post_type") === "product") return at(path, {});
+  return null;
+}
+
+/* ========================= mapping ========================= */
+
+// Store API money is a string of minor units: "1999" with currency_minor_unit 2
+function minor(v: any, unit: number): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n / 10 ** unit : null;
+}
+
+function priceOf(prices: any): PriceInfo | undefined {
+  if (!prices) return undefined;
+  const unit = Number(prices.currency_minor_unit ?? 2);
+  const amount = minor(prices.price, unit);
+  if (amount == null) return undefined;
+  const regular = minor(prices.regular_price, unit);
+  const lo = minor(prices.price_range?.min_amount, unit);
+  const hi = minor(prices.price_range?.max_amount, unit);
+  return {
+    amount,
+    currency: prices.currency_code ? String(prices.currency_code).toUpperCase() : null,
+    text: amount.toFixed(unit),
+    ...(regular != null && regular > amount ? { compareAt: regular } : {}),
+    ...(lo != null && hi != null && lo !== hi ? { min: lo, max: hi } : {}),
+  };
+}
+
+function stockStatus(p: any): "instock" | "outofstock" | "onbackorder" {
+  if (p.is_on_backorder) return "onbackorder";
+  return p.is_in_stock === false ? "outofstock" : "instock";
+}
+
+/** One Store API product → our item shape (+ WooCommerce extras). */
+export function wooItem(p: any, base: string) {
+  const images = (Array.isArray(p.images) ? p.images : [])
+    .map((img: any) => absUrl(img?.src, base))
+    .filter(Boolean) as string[];
+  const names = (xs: any) => (Array.isArray(xs) ? xs.map((x: any) => htmlText(x?.name)).filter(Boolean) : []);
+
+  return {
+    title: htmlText(p.name),
+    href: absUrl(p.permalink, base),
+    image: images[0],
+    ...priceFields(priceOf(p.prices)),
+    description: htmlText(p.short_description) ?? htmlText(p.description),
+    sku: p.sku || undefined,
+    available: p.is_in_stock !== false,
+    stockStatus: stockStatus(p),
+    ...(p.low_stock_remaining != null ? { lowStock: Number(p.low_stock_remaining) } : {}),
+    onSale: !!p.on_sale,
+    categories: names(p.categories),
+    tags: names(p.tags),
+    images,
+    productId: p.id,
+    slug: p.slug,
+  };
+}
+
+/* ========================= endpoint ========================= */
+
+// pretty permalinks serve /wp-json/…; plain ones only answer ?rest_route=…
+function endpointFor(t: WooTarget, plain: boolean, page: number) {
+  const qs = new URLSearchParams({ ...t.params, per_page: String(PER_PAGE), page: String(page) }).toString();
+  return plain ? `${t.base}/?rest_route=${ROUTE}&${qs}` : `${t.base}/wp-json${ROUTE}?${qs}`;
+}
+
+async function getJson(endpoint: string, opts: AdapterOpts): Promise<HttpJson> {
+  await politeGate(endpoint, opts.config, log);
+  const res = await fetchJson(endpoint, opts.config);
+  log.debug(`[woocommerce] ${res.status} ${res.contentType || "?"} ← ${endpoint}`);
+  return res;
+}
+
+const usable = (res: HttpJson) => res.status === 200 && Array.isArray(res.data);
+
+async function scrapeStoreApi(t: WooTarget, opts: AdapterOpts): Promise<AdapterResult | null> {
+  let plain = false;
+  let first = endpointFor(t, plain, 1);
+  const items: any[] = [];
+  let pages = 0;
+  let stopReason = "max-pages";
+
+  for (let n = 1; n <= opts.maxPages; n++) {
+    let res = await getJson(endpointFor(t, plain, n), opts);
+    if (n === 1 && !usable(res)) {
+      plain = true;
+      first = endpointFor(t, plain, 1);
+      res = await getJson(first, opts);
+    }
+    if (!usable(res)) {
+      // Store API off (or behind auth / a bot wall) on page 1 → DOM; later pages keep what we have
+      if (n === 1) {
+        log.info(`[woocommerce] ${first} → ${res.status}${res.data ? "" : ", not JSON"}; Store API unavailable`);
+        return null;
+      }
+      stopReason = `status-${res.status}`;
+      break;
+    }
+    const products: any[] = res.data;
+    if (!products.length) {
+      stopReason = "empty";
+      break;
+    }
+    pages = n;
+    items.push(...products.map((p) => ({ ...wooItem(p, t.base), page: n })));
+
+    const total = Number(res.headers["x-wp-totalpages"]);
+    if (total ? n >= total : products.length < PER_PAGE) {
+      stopReason = "last-page";
+      break;
+    }
+  }
+  return { adapter: "woocommerce", endpoint: first, items, pages, stopReason };
+}
+
+/* ========================= adapter ========================= */
+
+export const woocommerceAdapter: Adapter = {
+  name: "woocommerce",
+  kinds: ["woocommerce"],
+  async scrape(url, opts) {
+    const t = wooTarget(url);
+    if (!t) {
+      log.debug(`[woocommerce] no category / search / product in ${url}`);
+      return null;
+    }
+    return scrapeStoreApi(t, opts);
+  },
+};
@@ -0,0 +1,137 @@
+// src/browser/blocking.ts
+import type { BrowserContext, Route } from "playwright";
+import { hostOverride, FlowScrapeConfig, HeavySiteRules } from "../config/config.js";
+
+/* ========================= types ========================= */
+
+export type BlockStats = {
+  analytics: number;
+  hosts: number; // matched heavySite.blockedHostsRe
+  byType: Record<string, number>; // image / media / font / …
+  total: number;
+};
+
+type BlockLogger = {
+  debug: (...a: any[]) => any;
+  info: (...a: any[]) => any;
+};
+
+/* ========================= constants ========================= */
+
+// trackers / tag managers / session replay — never needed for extraction
+const ANALYTICS_RE = new RegExp(
+  [
+    "google-analytics\\.com",
+    "googletagmanager\\.com",
+    "googleadservices\\.com",
+    "doubleclick\\.net",
+    "connect\\.facebook\\.net",
+    "facebook\\.com/tr",
+    "hotjar\\.(com|io)",
+    "clarity\\.ms",
+    "bat\\.bing\\.com",
+    "segment\\.(io|com)",
+    "cdn\\.mxpnl\\.com|mixpanel\\.com",
+    "amplitude\\.com",
+    "fullstory\\.com",
+    "newrelic\\.com|nr-data\\.net",
+    "optimizely\\.com",
+    "quantserve\\.com",
+    "scorecardresearch\\.com",
+    "criteo\\.(com|net)",
+    "taboola\\.com",
+    "outbrain\\.com",
+    "adsrvr\\.org",
+    "analytics\\.tiktok\\.com",
+    "ct\\.pinterest\\.com",
+    "sc-static\\.net|tr\\.snapchat\\.com",
+  ].join("|"),
+  "i"
+);
+
+// 1×1 transparent gif: lazy loaders still get an onload, the DOM keeps the real URL
+const PIXEL_GIF = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64"
+);
+
+/* ========================= rules ========================= */
+
+/** heavySite rules for a host: global rules with the most specific `hosts` override on top. */
+export function rulesForHost(config: FlowScrapeConfig, host: string): HeavySiteRules {
+  const { hosts, ...base } = config.heavySite;
+  return { ...base, ...hostOverride(hosts, host) };
+}
+
+/* ========================= install ========================= */
+
+/**
+ * Route every request of the context through the heavySite rules.
+ * Returns live counters; read them once the run is done.
+ */
+export async function installResourceBlocking(
+  context: BrowserContext,
+  config: FlowScrapeConfig,
+  host: string,
+  log?: BlockLogger
+): Promise<BlockStats> {
+  const stats: BlockStats = { analytics: 0, hosts: 0, byType: {}, total: 0 };
+  const rules = rulesForHost(config, host);
+  const types = new Set(rules.blockedResourceTypes.map((t) => t.toLowerCase()));
+
+  let hostsRe: RegExp | null = null;
+  if (rules.blockedHostsRe) {
+    try {
+      hostsRe = new RegExp(rules.blockedHostsRe, "i");
+    } catch (e: any) {
+      log?.info("[block] ignoring invalid blockedHostsRe:", e?.message || e);
+    }
+  }
+
+  if (!rules.blockAnalytics && !types.size && !hostsRe) return stats;
+
+  const say = config.debug.network ? log?.info : log?.debug;
+
+  const block = async (route: Route, bucket: "analytics" | "hosts" | string) => {
+    stats.total += 1;
+    if (bucket === "analytics" || bucket === "hosts") stats[bucket] += 1;
+    else stats.byType[bucket] = (stats.byType[bucket] || 0) + 1;
+    say?.(`[block] ${bucket}:`, route.request().url().slice(0, 140));
+
+    if (bucket === "image") {
+      await route
+        .fulfill({ status: 200, contentType: "image/gif", body: PIXEL_GIF })
+        .catch(() => {});
+    } else {
+      await route.abort("blockedbyclient").catch(() => {});
+    }
+  };
+
+  await context.route("**/*", async (route) => {
+    const req = route.request();
+    const url = req.url();
+    const type = req.resourceType();
+
+    // never touch the documents we are scraping
+    if (type === "document") return route.fallback();
+
+    if (rules.blockAnalytics && ANALYTICS_RE.test(url)) return block(route, "analytics");
+    if (hostsRe && hostsRe.test(new URL(url).host)) return block(route, "hosts");
+    if (types.has(type)) return block(route, type);
+
+    return route.fallback();
+  });
+
+  log?.debug("[block] rules for", host, JSON.stringify(rules));
+  return stats;
+}
+
+/** "analytics:12 image:40 font:6" for run summaries. */
+export function formatBlockStats(stats: BlockStats): string {
+  const parts = [
+    stats.analytics ? `analytics:${stats.analytics}` : "",
+    stats.hosts ? `hosts:${stats.hosts}` : "",
+    ...Object.entries(stats.byType).map(([t, n]) => `${t}:${n}`),
+  ].filter(Boolean);
+  return parts.length ? parts.join(" ") : "none";
+}
@@ -0,0 +1,56 @@
+// src/browser/browser.ts
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from "playwright";
+import type { FlowScrapeConfig } from "../config/config.js";
+import { log } from "../log.js";
+
+/** Launch Chromium honoring config.headless (callers may force headful). */
+export async function launchBrowser(
+  config: FlowScrapeConfig,
+  overrides: { headless?: boolean } = {}
+): Promise<Browser> {
+  return chromium.launch({ headless: overrides.headless ?? config.headless });
+}
+
+/**
+ * One place for viewport / locale / timezone / UA so every engine gets the
+ * same browser profile. Starts a Playwright trace when debug.trace is on.
+ */
+export async function newScrapeContext(
+  browser: Browser,
+  config: FlowScrapeConfig,
+  extra: BrowserContextOptions = {}
+): Promise<BrowserContext> {
+  const context = await browser.newContext({
+    bypassCSP: true,
+    ignoreHTTPSErrors: true,
+    viewport: config.viewport,
+    locale: config.locale,
+    timezoneId: config.timezoneId,
+    ...(config.userAgent ? { userAgent: config.userAgent } : {}),
+    ...extra,
+  });
+
+  if (config.debug.trace) {
+    await context.tracing
+      .start({ screenshots: true, snapshots: true })
+      .catch((e) => log.warn("[browser] tracing.start failed:", e?.message || e));
+  }
+  return context;
+}
+
+/** Close a context; saves <storage.dir>/trace-<ts>.zip first when tracing. */
+export async function closeScrapeContext(context: BrowserContext, config: FlowScrapeConfig) {
+  if (config.debug.trace) {
+    mkdirSync(config.storage.dir, { recursive: true });
+    const path = join(config.storage.dir, `trace-${Date.now()}.zip`);
+    try {
+      await context.tracing.stop({ path });
+      log.info("[browser] trace saved:", path);
+    } catch (e: any) {
+      log.warn("[browser] tracing.stop failed:", e?.message || e);
+    }
+  }
+  try { await context.close(); } catch {}
+}
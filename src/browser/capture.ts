@@ -0,0 +1,120 @@
+// src/browser/capture.ts
+import type { Page, Request, Response } from "playwright";
+import type { FlowScrapeConfig } from "../config/config.js";
+import type { JsonResponse } from "../extract/json.js";
+import type { JsonRequestInit } from "./http.js";
+
+/* ========================= types ========================= */
+
+export type JsonCapture = {
+  responses: JsonResponse[]; // in arrival order
+  settled(): Promise<void>; // bodies still being read
+  stop(): void;
+};
+
+/** A request the page made, enough to make it again with fetchJson(). */
+export type CapturedRequest = JsonRequestInit & { url: string };
+
+export type RequestWatch = {
+  requests: CapturedRequest[]; // in the order the page sent them
+  stop(): void;
+};
+
+type CaptureLogger = {
+  debug: (...a: any[]) => any;
+};
+
+const JSON_TYPE_RE = /json|javascript|text\/plain/i;
+// request headers worth replaying: API keys / app ids, body type
+const REPLAY_HEADER_RE = /^(x-|content-type$|authorization$)/i;
+
+/* ========================= body ========================= */
+
+// JSON, or JSONP ("cb({...})") which several search APIs still answer with
+function parseBody(text: string): any {
+  const s = text.trim();
+  if (!s) return undefined;
+  if (s[0] === "{" || s[0] === "[") return JSON.parse(s);
+  const m = s.match(/^[\w$.]+\s*\(([\s\S]*)\)\s*;?$/);
+  return m ? JSON.parse(m[1]) : undefined;
+}
+
+/* ========================= capture ========================= */
+
+/**
+ * Record JSON bodies of the page's XHR / fetch responses from now until
+ * stop(). Attach before the first goto so the initial grid request is seen;
+ * scrolling and "load more" add theirs as they happen.
+ */
+export function captureJson(page: Page, config: FlowScrapeConfig, log?: CaptureLogger): JsonCapture {
+  const { maxResponses, maxBytes } = config.capture;
+  const responses: JsonResponse[] = [];
+  const pending = new Set<Promise<void>>();
+  let stopped = false;
+
+  const read = async (res: Response) => {
+    try {
+      const len = Number(res.headers()["content-length"]);
+      if (len > maxBytes) return;
+      const body = await res.body();
+      if (stopped || body.length > maxBytes || responses.length >= maxResponses) return;
+      const data = parseBody(body.toString("utf8"));
+      if (data && typeof data === "object") {
+        responses.push({ url: res.url(), data });
+        log?.debug(`[capture] ${res.status()} ${body.length}B ← ${res.url()}`);
+      }
+    } catch {
+      // not JSON after all, or the page navigated away before the body was read
+    }
+  };
+
+  const onResponse = (res: Response) => {
+    if (stopped || responses.length >= maxResponses) return;
+    const type = res.request().resourceType();
+    if (type !== "xhr" && type !== "fetch") return;
+    if (res.status() !== 200 || !JSON_TYPE_RE.test(res.headers()["content-type"] || "")) return;
+    const p = read(res).finally(() => pending.delete(p));
+    pending.add(p);
+  };
+
+  page.on("response", onResponse);
+  return {
+    responses,
+    async settled() {
+      while (pending.size) await Promise.all([...pending]);
+    },
+    stop() {
+      stopped = true;
+      page.off("response", onResponse);
+    },
+  };
+}
+
+/* ========================= requests ========================= */
+
+/**
+ * Record the page's XHR / fetch requests whose URL passes `test` (search
+ * API calls) with method, body and API-key headers, until stop().
+ */
+export function watchRequests(page: Page, test: (url: string) => boolean, log?: CaptureLogger): RequestWatch {
+  const requests: CapturedRequest[] = [];
+
+  const onRequest = (req: Request) => {
+    const type = req.resourceType();
+    if ((type !== "xhr" && type !== "fetch") || !test(req.url())) return;
+    const headers: Record<string, string> = {};
+    for (const [k, v] of Object.entries(req.headers())) {
+      if (REPLAY_HEADER_RE.test(k)) headers[k] = v;
+    }
+    requests.push({ url: req.url(), method: req.method(), body: req.postData() ?? undefined, headers });
+    log?.debug(`[capture] ${req.method()} ${req.url()}`);
+  };
+
+  page.on("request", onRequest);
+  return {
+    requests,
+    stop() {
+      page.off("request", onRequest);
+    },
+  };
+}
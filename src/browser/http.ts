@@ -0,0 +1,164 @@
+// src/browser/http.ts
+import type { FlowScrapeConfig } from "../config/config.js";
+
+/* ========================= types ========================= */
+
+export type HttpPage = {
+  url: string; // final URL after redirects
+  status: number;
+  contentType: string;
+  html: string;
+};
+
+export type HttpJson = {
+  url: string; // final URL after redirects
+  status: number;
+  contentType: string;
+  data: any; // parsed body, null when it wasn't JSON
+  headers: Record<string, string>; // lowercased names (x-wp-totalpages…)
+};
+
+/** Anything but a plain GET (search APIs that take a POSTed query). */
+export type JsonRequestInit = {
+  method?: string;
+  body?: string;
+  headers?: Record<string, string>;
+};
+
+type Cookie = { value: string; path: string; expires?: number };
+
+const MAX_REDIRECTS = 10;
+
+/* ========================= cookies ========================= */
+
+// host → cookie name → cookie; process-wide like the browser pool
+const jar = new Map<string, Map<string, Cookie>>();
+
+function storeCookies(url: URL, setCookies: string[]) {
+  for (const line of setCookies) {
+    const [pair, ...attrs] = line.split(";").map((s) => s.trim());
+    const eq = pair.indexOf("=");
+    if (eq <= 0) continue;
+    const name = pair.slice(0, eq).trim();
+    const cookie: Cookie = { value: pair.slice(eq + 1).trim(), path: "/" };
+    let host = url.hostname;
+    for (const a of attrs) {
+      const [k, v = ""] = a.split("=").map((s) => s.trim());
+      const key = k.toLowerCase();
+      if (key === "path" && v.startsWith("/")) cookie.path = v;
+      else if (key === "domain" && v) host = v.replace(/^\./, "").toLowerCase();
+      else if (key === "max-age" && v) cookie.expires = Date.now() + Number(v) * 1000;
+      else if (key === "expires" && !cookie.expires && Date.parse(v)) cookie.expires = Date.parse(v);
+    }
+    const forHost = jar.get(host) ?? new Map<string, Cookie>();
+    jar.set(host, forHost);
+    if (cookie.expires != null && cookie.expires <= Date.now()) forHost.delete(name);
+    else forHost.set(name, cookie);
+  }
+}
+
+// cookies set for the host itself or any parent domain
+function cookieHeader(url: URL): string {
+  const out: string[] = [];
+  const now = Date.now();
+  for (const [host, cookies] of jar) {
+    if (url.hostname !== host && !url.hostname.endsWith(`.${host}`)) continue;
+    for (const [name, c] of cookies) {
+      if (c.expires != null && c.expires <= now) continue;
+      if (!url.pathname.startsWith(c.path)) continue;
+      out.push(`${name}=${c.value}`);
+    }
+  }
+  return out.join("; ");
+}
+
+/* ========================= fetch ========================= */
+
+// one request with redirects followed by hand so cookies set along the way are kept
+async function request(url: string, config: FlowScrapeConfig, accept: string, init: JsonRequestInit = {}) {
+  let current = new URL(url);
+  let { method = "GET", body } = init;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const cookies = cookieHeader(current);
+    const res = await fetch(current, {
+      method,
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(config.http.timeoutMs),
+      headers: {
+        ...init.headers,
+        accept,
+        "accept-language": `${config.locale},${config.locale.split("-")[0]};q=0.9`,
+        ...(config.userAgent ? { "user-agent": config.userAgent } : {}),
+        ...(cookies ? { cookie: cookies } : {}),
+      },
+    }).catch((err: any) => {
+      if (err?.name === "TimeoutError") throw err;
+      // undici hides the real reason ("fetch failed"); surface ECONNREFUSED & co.
+      const cause = err?.cause?.code || err?.cause?.message;
+      throw new Error(`[http] ${err?.message || err}${cause ? ` (${cause})` : ""}: ${current}`);
+    });
+    storeCookies(current, res.headers.getSetCookie());
+
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel();
+      current = new URL(location, current);
+      // only 307 / 308 repeat a POST as a POST
+      if (res.status !== 307 && res.status !== 308) {
+        method = "GET";
+        body = undefined;
+      }
+      continue;
+    }
+    return { res, url: current.toString(), contentType: res.headers.get("content-type") || "" };
+  }
+  throw new Error(`[http] ERR_TOO_MANY_REDIRECTS: ${url}`);
+}
+
+/**
+ * GET a page the way the browser profile would (UA, Accept-Language),
+ * keeping cookies across redirects. Throws on network errors / timeouts /
+ * redirect loops; HTTP error statuses come back as pages (callers judge
+ * them by what they extract).
+ */
+export async function fetchHtml(url: string, config: FlowScrapeConfig): Promise<HttpPage> {
+  const { res, url: finalUrl, contentType } = await request(
+    url,
+    config,
+    "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8"
+  );
+  const page = { url: finalUrl, status: res.status, contentType, html: "" };
+  // images, PDFs… nothing to extract
+  if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+    await res.body?.cancel();
+    return page;
+  }
+  return { ...page, html: await res.text() };
+}
+
+/**
+ * GET (or `init.method`) a JSON endpoint (adapters). `data` is null when the
+ * answer isn't JSON — storefronts that disable an endpoint tend to serve an
+ * HTML page or a redirect to the home page instead of an error status.
+ */
+export async function fetchJson(url: string, config: FlowScrapeConfig, init?: JsonRequestInit): Promise<HttpJson> {
+  const { res, url: finalUrl, contentType } = await request(
+    url,
+    config,
+    "application/json,text/javascript;q=0.9,*/*;q=0.1",
+    init
+  );
+  const headers: Record<string, string> = {};
+  res.headers.forEach((v, k) => (headers[k] = v));
+  const out = { url: finalUrl, status: res.status, contentType, headers, data: null as any };
+  if (/html/i.test(contentType)) {
+    await res.body?.cancel();
+    return out;
+  }
+  try {
+    return { ...out, data: JSON.parse(await res.text()) };
+  } catch {
+    return out;
+  }
+}
@@ -0,0 +1,190 @@
+// src/browser/polite.ts
+import { hostOverride, FlowScrapeConfig, PolitenessRules } from "../config/config.js";
+
+/* ========================= types ========================= */
+
+type PoliteLogger = {
+  debug: (...a: any[]) => any;
+  info: (...a: any[]) => any;
+};
+
+type RobotsRule = { allow: boolean; re: RegExp; len: number };
+
+type Robots = {
+  rules: RobotsRule[];
+  crawlDelayMs: number;
+};
+
+type Pace = {
+  next: number; // earliest epoch ms for the next navigation
+  recent: number[]; // navigation times in the last minute
+};
+
+const ROBOTS_TIMEOUT_MS = 5000;
+// product token we look for in robots.txt user-agent lines
+const ROBOTS_AGENT = "flowscrape";
+
+/* ========================= state ========================= */
+
+const robotsByOrigin = new Map<string, Promise<Robots>>();
+const paceByHost = new Map<string, Pace>();
+
+/* ========================= rules ========================= */
+
+/** politeness rules for a host: global rules with the most specific `hosts` override on top. */
+export function politenessFor(config: FlowScrapeConfig, host: string): PolitenessRules {
+  const { hosts, ...base } = config.politeness;
+  return { ...base, ...hostOverride(hosts, host) };
+}
+
+/* ========================= robots.txt ========================= */
+
+// robots patterns: "*" = anything, trailing "$" = end of URL, otherwise a prefix
+function patternToRe(p: string) {
+  const anchored = p.endsWith("$");
+  const body = (anchored ? p.slice(0, -1) : p)
+    .replace(/[.+?^{}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parse the group for our agent (else "*"). Only Allow / Disallow /
+ * Crawl-delay matter here.
+ */
+export function parseRobots(txt: string, agent = ROBOTS_AGENT): Robots {
+  type Group = { agents: string[]; lines: [string, string][] };
+  const groups: Group[] = [];
+  let cur: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const raw of txt.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, "").trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const val = m[2].trim();
+    if (key === "user-agent") {
+      if (!cur || !lastWasAgent) groups.push((cur = { agents: [], lines: [] }));
+      cur.agents.push(val.toLowerCase());
+      lastWasAgent = true;
+    } else {
+      if (cur) cur.lines.push([key, val]);
+      lastWasAgent = false;
+    }
+  }
+
+  const mine = groups.filter((g) => g.agents.some((a) => a !== "*" && agent.includes(a)));
+  const chosen = mine.length ? mine : groups.filter((g) => g.agents.includes("*"));
+
+  const rules: RobotsRule[] = [];
+  let crawlDelayMs = 0;
+  for (const g of chosen) {
+    for (const [k, v] of g.lines) {
+      if ((k === "allow" || k === "disallow") && v) {
+        rules.push({ allow: k === "allow", re: patternToRe(v), len: v.length });
+      } else if (k === "crawl-delay" && Number(v) > 0) {
+        crawlDelayMs = Math.max(crawlDelayMs, Number(v) * 1000);
+      }
+    }
+  }
+  return { rules, crawlDelayMs };
+}
+
+/** Longest matching rule wins; Allow wins ties; no match = allowed. */
+function robotsAllow(robots: Robots, pathAndQuery: string) {
+  let best: RobotsRule | null = null;
+  for (const r of robots.rules) {
+    if (!r.re.test(pathAndQuery)) continue;
+    if (!best || r.len > best.len || (r.len === best.len && r.allow)) best = r;
+  }
+  return best ? best.allow : true;
+}
+
+async function fetchRobots(origin: string, config: FlowScrapeConfig, log?: PoliteLogger): Promise<Robots> {
+  const none: Robots = { rules: [], crawlDelayMs: 0 };
+  try {
+    const res = await fetch(`${origin}/robots.txt`, {
+      headers: config.userAgent ? { "user-agent": config.userAgent } : {},
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+      redirect: "follow",
+    });
+    // 4xx = no robots.txt; 5xx = can't tell — both treated as "allowed"
+    if (!res.ok) {
+      log?.debug(`[polite] ${origin}/robots.txt → ${res.status}, treating as allow-all`);
+      return none;
+    }
+    const robots = parseRobots(await res.text());
+    log?.debug(`[polite] ${origin}/robots.txt: ${robots.rules.length} rule(s)`);
+    return robots;
+  } catch (e: any) {
+    log?.info(`[polite] ${origin}/robots.txt unreachable (${e?.message || e}), treating as allow-all`);
+    return none;
+  }
+}
+
+function robotsFor(url: URL, config: FlowScrapeConfig, log?: PoliteLogger) {
+  let p = robotsByOrigin.get(url.origin);
+  if (!p) {
+    p = fetchRobots(url.origin, config, log);
+    robotsByOrigin.set(url.origin, p);
+  }
+  return p;
+}
+
+/**
+ * Throw (err.kind = "robots") when robots.txt disallows `url` and no
+ * allowPaths override covers it. Fetched once per origin and cached.
+ */
+export async function assertRobotsAllowed(url: string, config: FlowScrapeConfig, log?: PoliteLogger) {
+  const u = new URL(url);
+  const rules = politenessFor(config, u.host);
+  if (!rules.robots) return;
+  if (rules.allowPaths.some((p) => u.pathname.startsWith(p))) return;
+
+  const robots = await robotsFor(u, config, log);
+  if (robotsAllow(robots, u.pathname + u.search)) return;
+  throw Object.assign(new Error(`[polite] robots.txt disallows ${u.pathname}${u.search} on ${u.host}`), {
+    kind: "robots" as const,
+  });
+}
+
+/* ========================= pacing ========================= */
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Wait for this host's turn: minDelayMs (or robots Crawl-delay) + jitter
+ * since the previous navigation, and at most maxPerMinute per rolling
+ * minute. The slot is reserved before sleeping, so concurrent callers queue.
+ */
+export async function paceHost(url: string, config: FlowScrapeConfig, log?: PoliteLogger) {
+  const u = new URL(url);
+  const host = u.host.replace(/^www\./, "").toLowerCase();
+  const rules = politenessFor(config, u.host);
+  const robots = rules.robots ? await robotsFor(u, config, log) : null;
+  const gap = Math.max(rules.minDelayMs, robots?.crawlDelayMs ?? 0);
+
+  const pace = paceByHost.get(host) ?? { next: 0, recent: [] };
+  paceByHost.set(host, pace);
+
+  const now = Date.now();
+  let at = Math.max(now, pace.next);
+  pace.recent = pace.recent.filter((t) => t > at - 60_000);
+  if (rules.maxPerMinute > 0 && pace.recent.length >= rules.maxPerMinute) {
+    at = Math.max(at, pace.recent[pace.recent.length - rules.maxPerMinute] + 60_000);
+  }
+  pace.recent.push(at);
+  pace.next = at + gap + Math.random() * rules.jitterMs;
+
+  if (at > now) {
+    log?.debug(`[polite] ${host}: waiting ${at - now}ms`);
+    await sleep(at - now);
+  }
+}
+
+/** Everything that must happen before a page.goto: robots check, then pacing. */
+export async function politeGate(url: string, config: FlowScrapeConfig, log?: PoliteLogger) {
+  await assertRobotsAllowed(url, config, log);
+  await paceHost(url, config, log);
+}
@@ -0,0 +1,248 @@
+// src/browser/pool.ts
+import type { Browser, BrowserContext, Page } from "playwright";
+import type { FlowScrapeConfig } from "../config/config.js";
+import { launchBrowser, newScrapeContext, closeScrapeContext } from "./browser.js";
+import { installResourceBlocking, BlockStats } from "./blocking.js";
+
+/* ========================= types ========================= */
+
+type PoolLogger = {
+  debug: (...a: any[]) => any;
+  info: (...a: any[]) => any;
+};
+
+export type PoolOpts = {
+  concurrency?: number; // open contexts / leases at once (default config.pool.concurrency)
+  perHost?: number; // leases at once per host (default config.pool.perHost)
+  pagesPerContext?: number; // recycle after this many navigations (default config.pool.pagesPerContext)
+  headless?: boolean;
+  log?: PoolLogger;
+};
+
+/** A page on a pooled context, exclusively yours until release(). */
+export type Lease = {
+  page: Page;
+  context: BrowserContext;
+  host: string;
+  // heavySite counters for this lease only (null with blockHeavy: false)
+  blocked: BlockStats | null;
+  // failed: the run threw — the context is recycled rather than reused
+  release: (opts?: { failed?: boolean }) => Promise<void>;
+};
+
+export type PoolStats = {
+  created: number;
+  reused: number;
+  recycled: number;
+  crashed: number;
+};
+
+export type ContextPool = {
+  acquire: (url: string, opts?: { blockHeavy?: boolean }) => Promise<Lease>;
+  close: () => Promise<void>;
+  stats: () => PoolStats;
+};
+
+type Slot = {
+  key: string; // host + blocking mode: contexts only serve the same host/rules
+  host: string;
+  context: BrowserContext;
+  blocked: BlockStats | null;
+  navigations: number;
+  crashed: boolean;
+  lastUsed: number;
+};
+
+type Waiter = { host: string; wake: () => void };
+
+/* ========================= helpers ========================= */
+
+function hostOf(url: string) {
+  return new URL(url).host.replace(/^www\./, "").toLowerCase();
+}
+
+function resetStats(s: BlockStats) {
+  s.analytics = 0;
+  s.hosts = 0;
+  s.total = 0;
+  for (const k of Object.keys(s.byType)) delete s.byType[k];
+}
+
+/* ========================= pool ========================= */
+
+/**
+ * Browser contexts shared by the engines. One Chromium (relaunched if it
+ * dies); at most `concurrency` contexts open and leased, at most `perHost`
+ * leases per host. Idle contexts are reused for the same host — cookies,
+ * consent and blocking rules carry over — and recycled after
+ * `pagesPerContext` navigations or when a page crashes.
+ */
+export function createContextPool(config: FlowScrapeConfig, opts: PoolOpts = {}): ContextPool {
+  const concurrency = Math.max(1, opts.concurrency ?? config.pool.concurrency);
+  const perHost = Math.max(1, opts.perHost ?? config.pool.perHost);
+  const pagesPerContext = Math.max(1, opts.pagesPerContext ?? config.pool.pagesPerContext);
+  const log = opts.log;
+
+  let browser: Browser | null = null;
+  let launching: Promise<Browser> | null = null;
+  let closed = false;
+
+  const idle: Slot[] = [];
+  const activeByHost = new Map<string, number>();
+  let active = 0;
+  const waiters: Waiter[] = [];
+  const stats: PoolStats = { created: 0, reused: 0, recycled: 0, crashed: 0 };
+
+  async function getBrowser(): Promise<Browser> {
+    if (browser?.isConnected()) return browser;
+    if (!launching) {
+      if (browser) {
+        log?.info("[pool] browser disconnected — relaunching");
+        idle.length = 0; // their contexts died with it
+      }
+      launching = launchBrowser(config, { headless: opts.headless }).finally(() => {
+        launching = null;
+      });
+    }
+    browser = await launching;
+    return browser;
+  }
+
+  const canRun = (host: string) =>
+    active < concurrency && (activeByHost.get(host) ?? 0) < perHost;
+
+  // wake the first waiter that fits (FIFO, but a capped host doesn't block others)
+  function pump() {
+    for (let i = 0; i < waiters.length; i++) {
+      if (!canRun(waiters[i].host)) continue;
+      const [w] = waiters.splice(i, 1);
+      w.wake();
+      return;
+    }
+  }
+
+  async function retire(slot: Slot, why: string) {
+    stats.recycled += 1;
+    log?.debug(`[pool] recycling context for ${slot.host} (${why})`);
+    await closeScrapeContext(slot.context, config);
+  }
+
+  async function openSlot(key: string, host: string, url: string, blockHeavy: boolean): Promise<Slot> {
+    // keep open contexts ≤ concurrency: drop the least recently used idle one
+    if (active + idle.length > concurrency && idle.length) {
+      idle.sort((a, b) => a.lastUsed - b.lastUsed);
+      await retire(idle.shift()!, "pool full");
+    }
+    const b = await getBrowser();
+    const context = await newScrapeContext(b, config);
+    // analytics / images / fonts off the wire; DOM src attributes are untouched
+    const blocked = blockHeavy
+      ? await installResourceBlocking(context, config, new URL(url).host, log)
+      : null;
+    stats.created += 1;
+    return { key, host, context, blocked, navigations: 0, crashed: false, lastUsed: Date.now() };
+  }
+
+  async function acquire(url: string, o: { blockHeavy?: boolean } = {}): Promise<Lease> {
+    if (closed) throw new Error("[pool] acquire after close()");
+    const host = hostOf(url);
+    const blockHeavy = o.blockHeavy !== false;
+    const key = `${host}|${blockHeavy ? "block" : "open"}`;
+
+    while (!canRun(host)) {
+      await new Promise<void>((wake) => waiters.push({ host, wake }));
+    }
+    active += 1;
+    activeByHost.set(host, (activeByHost.get(host) ?? 0) + 1);
+
+    let slot: Slot | undefined;
+    try {
+      const i = idle.findIndex((s) => s.key === key && browser?.isConnected());
+      if (i >= 0) {
+        slot = idle.splice(i, 1)[0];
+        stats.reused += 1;
+        log?.debug(`[pool] reusing context for ${host} (${slot.navigations} navigations so far)`);
+      } else {
+        slot = await openSlot(key, host, url, blockHeavy);
+      }
+      const page = await slot.context.newPage();
+      const s = slot;
+      page.on("crash", () => {
+        s.crashed = true;
+        stats.crashed += 1;
+      });
+      page.on("framenavigated", (f) => {
+        if (f === page.mainFrame()) s.navigations += 1;
+      });
+      if (s.blocked) resetStats(s.blocked);
+
+      let released = false;
+      return {
+        page,
+        context: s.context,
+        host,
+        blocked: s.blocked,
+        release: async (r = {}) => {
+          if (released) return;
+          released = true;
+          await page.close().catch(() => {});
+          s.lastUsed = Date.now();
+          if (closed || r.failed || s.crashed || !browser?.isConnected()) {
+            await retire(s, s.crashed ? "crash" : r.failed ? "failed run" : "closing");
+          } else if (s.navigations >= pagesPerContext) {
+            await retire(s, `${s.navigations} navigations`);
+          } else {
+            idle.push(s);
+          }
+          active -= 1;
+          activeByHost.set(host, (activeByHost.get(host) ?? 1) - 1);
+          pump();
+        },
+      };
+    } catch (e) {
+      if (slot) await retire(slot, "page open failed");
+      active -= 1;
+      activeByHost.set(host, (activeByHost.get(host) ?? 1) - 1);
+      pump();
+      throw e;
+    }
+  }
+
+  async function close() {
+    closed = true;
+    for (const s of idle.splice(0)) await closeScrapeContext(s.context, config);
+    if (browser) await browser.close().catch(() => {});
+    browser = null;
+  }
+
+  return { acquire, close, stats: () => ({ ...stats }) };
+}
+
+/**
+ * Run `fn` on a leased page and release it afterwards (recycling the
+ * context if `fn` threw). Without a pool, a private one-context pool is
+ * created and closed around the call — the single-URL CLI path.
+ */
+export async function withPooledPage<T>(
+  pool: ContextPool | undefined,
+  config: FlowScrapeConfig,
+  url: string,
+  opts: { headless?: boolean; blockHeavy?: boolean; log?: PoolLogger },
+  fn: (lease: Lease) => Promise<T>
+): Promise<T> {
+  const own = pool ?? createContextPool(config, { concurrency: 1, perHost: 1, headless: opts.headless, log: opts.log });
+  try {
+    const lease = await own.acquire(url, { blockHeavy: opts.blockHeavy });
+    let failed = false;
+    try {
+      return await fn(lease);
+    } catch (e) {
+      failed = true;
+      throw e;
+    } finally {
+      await lease.release({ failed });
+    }
+  } finally {
+    if (!pool) await own.close();
+  }
+}
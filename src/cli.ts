@@ -2,14 +2,114 @@
 import { run } from "./engine.js";
 import { runRaw } from "./engine.raw.js";
 import { runTeach } from "./engine.teach.js";
+import { runHttp } from "./engine.http.js";
+import { runReplay, parseWhen } from "./engine.replay.js";
+import { runBatch, resumeBatch, readBatchInput, batchExitCode } from "./engine.batch.js";
+import { runFixtures, captureFixture } from "./fixtures/fixtures.js";
+import { startServer } from "./server.js";
+import { loadConfig } from "./config/config.js";
+import { newRunId } from "./storage/envelope.js";
+import { withRun, urlReport } from "./storage/runs.js";
+import { failureFromError, EngineResult } from "./steps/outcome.js";
 
 async function main() {
   const args = process.argv.slice(2);
   const url = args.find((a) => a.startsWith("http"));
 
+  if (args.includes("--capture-fixture")) {
+    const target = strArg(args, "--capture-fixture") ?? url;
+    if (!target) throw new Error("--capture-fixture needs a page URL");
+    await captureFixture(target, {
+      name: strArg(args, "--name"),
+      since: parseWhen(strArg(args, "--since")),
+      until: parseWhen(strArg(args, "--until")),
+      force: args.includes("--force"),
+      dir: loadConfig({ args }).storage.dir,
+    });
+    return;
+  }
+
+  if (args.includes("--fixtures")) {
+    // golden fixtures: normal + raw pipelines, per-field precision / recall
+    const { regressions } = await runFixtures({
+      filter: strArg(args, "--fixtures"),
+      update: args.includes("--update"),
+    });
+    if (regressions) process.exitCode = 1;
+    return;
+  }
+
+  if (args.includes("--replay")) {
+    // offline: re-extract stored HTML snapshots, no browser
+    await runReplay({
+      url: strArg(args, "--url") ?? url,
+      host: strArg(args, "--host"),
+      since: parseWhen(strArg(args, "--since")),
+      until: parseWhen(strArg(args, "--until")),
+      all: args.includes("--all"),
+      run: strArg(args, "--run"),
+      dir: loadConfig({ args }).storage.dir,
+      engine: args.includes("--teach") ? "teach" : args.includes("--raw") ? "raw" : "normal",
+      out: strArg(args, "--out"),
+      compare: args.includes("--compare"),
+    });
+    return;
+  }
+
+  if (args.includes("--serve")) {
+    // local daemon: POST /scrape, POST /extract, GET /profiles/:host, GET /runs/:id
+    const server = await startServer({
+      port: numArg(args, "--port") ?? (Number(process.env.FS_PORT) || undefined),
+      config: loadConfig({ args }),
+    });
+    // open SSE streams would keep close() waiting
+    const stop = () => {
+      server.closeAllConnections();
+      server.close();
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    return;
+  }
+
+  if (args.includes("--resume")) {
+    // pick an interrupted batch back up from <storage.dir>/queue.jsonl
+    const results = await resumeBatch(strArg(args, "--resume"), { config: loadConfig({ args }), args });
+    process.exitCode = batchExitCode(results);
+    return;
+  }
+
+  if (args.includes("--urls") || args.includes("--stdin")) {
+    // one Chromium for the whole list; per-line mode / maxPages via NDJSON
+    const source = args.includes("--stdin") ? "-" : strArg(args, "--urls");
+    if (!source) throw new Error("--urls needs a file (or - for stdin)");
+    if (args.includes("--teach")) throw new Error("--teach needs a person at the overlay; it can't run in a batch");
+    const entries = await readBatchInput(source);
+    const results = await runBatch(entries, {
+      mode: args.includes("--raw") || args.includes("--no-class") ? "raw" : args.includes("--http") ? "http" : "normal",
+      assist: args.includes("--assist") || args.includes("--assist-learn"),
+      blockHeavy: !args.includes("--no-block"),
+      maxPages: numArg(args, "--max-pages"),
+      config: loadConfig({ args }),
+      args,
+    });
+    process.exitCode = batchExitCode(results);
+    return;
+  }
+
   if (!url) {
     console.error(
-      "usage: npm run dev -- <url> [--raw] [--no-headless] [--assist] [--teach]"
+      "usage: npm run dev -- <url> [--raw | --http [--min-items N] [--no-escalate]] [--no-headless] [--assist] [--teach] [--max-pages N] [--no-block]\n" +
+        "       [--config file.yaml] [--viewport WxH] [--locale xx-YY] [--timezone Area/City] [--trace]\n" +
+        "       [--sink jsonl,csv,sqlite,stdout] [--out-dir dir] [--adapters shopify,woocommerce | --no-adapters]\n" +
+        "       [--capture-json]\n" +
+        "       npm run dev -- --urls <file | -> [--raw | --http] [--max-pages N] [--no-block]   (or --stdin)\n" +
+        "       npm run dev -- --resume [runId]\n" +
+        "       npm run dev -- --serve [--port 8787]\n" +
+        "       npm run dev -- --replay [<url> | --host h] [--run id] [--since t] [--until t] [--all] [--raw|--teach]\n" +
+        "       [--compare] [--out items.jsonl]\n" +
+        "       npm run dev -- --capture-fixture <url> [--name n] [--force]\n" +
+        "       npm run dev -- --fixtures [name-filter] [--update]"
     );
     process.exit(1);
   }
@@ -17,27 +117,67 @@ async function main() {
   const useRaw  = args.includes("--raw") || args.includes("--no-class");
   const assist  = args.includes("--assist") || args.includes("--assist-learn");
   const teach   = args.includes("--teach");
-  const noHead  = args.includes("--no-headless");
+  const useHttp = args.includes("--http");
+  // --no-block: let analytics / images / fonts load (see heavySite in config)
+  const blockHeavy = !args.includes("--no-block");
+  // explicit --max-pages also beats a flow's own paginate.maxPages
+  const maxPages = numArg(args, "--max-pages");
+
+  // defaults.yaml < flowscrape.config.yaml / --config < FS_* env < flags
+  const config = loadConfig({ args });
 
   // If --teach: run headful by default so overlay is visible
-  const headless = teach ? false : !noHead;
-
-  if (teach) {
-    // ✅ PURE TEACH MODE
-    // Uses engine.teach.ts → extractTeachItems → writeItems(items)
-    await runTeach(url, { headless });
-  } else if (useRaw) {
-    // ✅ RAW / AUTODETECT MODE
-    // teach flag is false here; we don’t block on overlay
-    await runRaw(url, {
-      headless,
-      assist,
-      teach: false,
-    });
-  } else {
+  const headless = teach ? false : config.headless;
+
+  // items / pages go to config.storage sinks (--sink, --out-dir) under storage/runs/<runId>/
+  const runId = newRunId();
+  const engine = teach ? "teach" : useRaw ? "raw" : useHttp ? "http" : "normal";
+  const go = (): Promise<EngineResult> => {
+    if (teach) {
+      // ✅ PURE TEACH MODE
+      // Uses engine.teach.ts → extractTeachItems → writeItems(items)
+      return runTeach(url, { headless, blockHeavy, maxPages, config, runId });
+    }
+    if (useRaw) {
+      // ✅ RAW / AUTODETECT MODE
+      // teach flag is false here; we don’t block on overlay
+      return runRaw(url, {
+        headless,
+        assist,
+        teach: false,
+        blockHeavy,
+        maxPages,
+        config,
+        runId,
+      });
+    }
+    // ✅ STATIC HTTP (no browser unless the result is too thin)
+    if (useHttp) return runHttp(url, { headless, blockHeavy, maxPages, config, runId });
     // ✅ NORMAL ENGINE (router + autodetect + learned)
-    await run(url, { headless });
-  }
+    return run(url, { headless, blockHeavy, maxPages, config, runId });
+  };
+
+  await withRun(config, { runId, engine, urls: [url], args }, async (report) => {
+    const t0 = Date.now();
+    try {
+      report(urlReport(url, t0, await go()));
+    } catch (e) {
+      report(urlReport(url, t0, null, failureFromError(e, url)));
+      throw e;
+    }
+  });
+}
+
+function numArg(args: string[], name: string): number | undefined {
+  const i = args.indexOf(name);
+  if (i < 0) return undefined;
+  const n = Number(args[i + 1]);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function strArg(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 && args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : undefined;
 }
 
 main().catch((err) => {
@@ -0,0 +1,384 @@
+// src/config/config.ts
+import { existsSync, readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+
+/* ========================= types ========================= */
+
+export type Viewport = { width: number; height: number };
+
+export type HeavySiteRules = {
+  blockAnalytics: boolean;
+  blockedResourceTypes: string[]; // Playwright resource types: image, media, font, …
+  blockedHostsRe: string;
+};
+
+export type PolitenessRules = {
+  minDelayMs: number; // between navigations to one host
+  jitterMs: number; // random extra on top of minDelayMs
+  maxPerMinute: number; // 0 = unlimited
+  robots: boolean; // honor robots.txt
+  allowPaths: string[]; // path prefixes fetched even when robots.txt disallows them
+};
+
+export type FlowScrapeConfig = {
+  headless: boolean;
+  viewport: Viewport;
+  locale: string;
+  timezoneId: string;
+  userAgent?: string;
+  maxPages: number;
+  debug: {
+    routing: boolean; // log classification / selector routing decisions
+    clicks: boolean; // log every click made by flows and helpers
+    steps: boolean; // log each flow step at info level
+    network: boolean; // log network-level decisions
+    trace: boolean; // record a Playwright trace into storage/
+  };
+  i18n: {
+    acceptWords: string[];
+    closeWords: string[];
+    shopWords: string[];
+    loadMoreWords: string[];
+  };
+  heavySite: HeavySiteRules & {
+    // per-host overrides keyed by host suffix ("nike.com" also covers "www.nike.com")
+    hosts: Record<string, Partial<HeavySiteRules>>;
+  };
+  exhaust: {
+    maxRounds: number;
+    maxMs: number;
+    plateauRounds: number;
+  };
+  pool: {
+    concurrency: number; // contexts open at once
+    perHost: number; // of those, at most this many on one host
+    pagesPerContext: number; // navigations before a context is recycled
+  };
+  politeness: PolitenessRules & {
+    // per-host overrides keyed by host suffix, like heavySite.hosts
+    hosts: Record<string, Partial<PolitenessRules>>;
+  };
+  storage: {
+    dir: string; // where sinks write
+    sinks: string[]; // jsonl | csv | sqlite | stdout, all at once
+  };
+  adapters: string[]; // JSON APIs tried before the DOM: platforms (shopify, woocommerce), search providers (algolia…); [] = DOM only
+  capture: {
+    json: boolean; // record XHR / fetch JSON while the page loads and learn a per-host mapping
+    maxResponses: number; // per page
+    maxBytes: number; // bigger bodies are skipped
+  };
+  http: {
+    minItems: number; // --http escalates to the browser below this many items
+    timeoutMs: number; // per request
+    escalate: boolean; // false = keep the static result, however thin
+  };
+  queue: {
+    maxAttempts: number; // per URL, first try included
+    backoffMs: number; // first retry delay, doubled per attempt
+    maxBackoffMs: number;
+  };
+};
+
+const DEFAULTS_PATH = "configs/defaults.yaml";
+const PROJECT_PATH = "flowscrape.config.yaml";
+
+/* ========================= merge helpers ========================= */
+
+function isPlainObject(x: any): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+// objects merge key by key; arrays and scalars replace
+function deepMerge(base: any, over: any): any {
+  if (!isPlainObject(base) || !isPlainObject(over)) return over === undefined ? base : over;
+  const out: Record<string, any> = { ...base };
+  for (const [k, v] of Object.entries(over)) {
+    if (v === undefined) continue;
+    out[k] = deepMerge(base[k], v);
+  }
+  return out;
+}
+
+function readYaml(path: string): Record<string, any> {
+  const doc = parseYaml(readFileSync(path, "utf8"));
+  if (doc != null && !isPlainObject(doc)) {
+    throw new Error(`[config] ${path}: expected a mapping at the top level`);
+  }
+  return doc || {};
+}
+
+export function parseViewport(v: any): Viewport | undefined {
+  if (isPlainObject(v) && v.width && v.height) {
+    return { width: Number(v.width), height: Number(v.height) };
+  }
+  const m = String(v ?? "").match(/^\s*(\d+)\s*[x×]\s*(\d+)\s*$/i);
+  return m ? { width: Number(m[1]), height: Number(m[2]) } : undefined;
+}
+
+function toBool(v: string | undefined): boolean | undefined {
+  if (v == null || v === "") return undefined;
+  return /^(1|true|yes|on)$/i.test(v);
+}
+
+function toNum(v: string | undefined): number | undefined {
+  const n = Number(v);
+  return v != null && v !== "" && Number.isFinite(n) ? n : undefined;
+}
+
+// "csv,sqlite" → ["csv", "sqlite"]
+function list(v: string | undefined): string[] | undefined {
+  const parts = String(v ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  return parts.length ? parts : undefined;
+}
+
+function flagValue(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  if (i >= 0 && args[i + 1] && !args[i + 1].startsWith("--")) return args[i + 1];
+  const eq = args.find((a) => a.startsWith(`${name}=`));
+  return eq ? eq.slice(name.length + 1) : undefined;
+}
+
+/* ========================= layers ========================= */
+
+function fromEnv(env: NodeJS.ProcessEnv): Record<string, any> {
+  return {
+    headless: toBool(env.FS_HEADLESS),
+    viewport: env.FS_VIEWPORT || undefined,
+    locale: env.FS_LOCALE || undefined,
+    timezoneId: env.FS_TIMEZONE || undefined,
+    userAgent: env.FS_USER_AGENT || undefined,
+    maxPages: toNum(env.FS_MAX_PAGES),
+    debug: {
+      trace: toBool(env.FS_TRACE),
+    },
+    pool: {
+      concurrency: toNum(env.FS_CONCURRENCY),
+      perHost: toNum(env.FS_PER_HOST),
+    },
+    storage: {
+      dir: env.FS_OUT_DIR || undefined,
+      sinks: list(env.FS_SINK),
+    },
+    adapters: env.FS_ADAPTERS === "none" ? [] : list(env.FS_ADAPTERS),
+    capture: {
+      json: toBool(env.FS_CAPTURE_JSON),
+    },
+    http: {
+      minItems: toNum(env.FS_HTTP_MIN_ITEMS),
+    },
+  };
+}
+
+function fromArgs(args: string[]): Record<string, any> {
+  const headless = args.includes("--no-headless")
+    ? false
+    : args.includes("--headless")
+    ? true
+    : undefined;
+  return {
+    headless,
+    viewport: flagValue(args, "--viewport"),
+    locale: flagValue(args, "--locale"),
+    timezoneId: flagValue(args, "--timezone"),
+    userAgent: flagValue(args, "--user-agent"),
+    maxPages: toNum(flagValue(args, "--max-pages")),
+    debug: {
+      trace: args.includes("--trace") ? true : undefined,
+    },
+    pool: {
+      concurrency: toNum(flagValue(args, "--concurrency")),
+      perHost: toNum(flagValue(args, "--per-host")),
+    },
+    storage: {
+      dir: flagValue(args, "--out-dir"),
+      sinks: list(flagValue(args, "--sink")),
+    },
+    adapters: args.includes("--no-adapters") ? [] : list(flagValue(args, "--adapters")),
+    capture: {
+      json: args.includes("--capture-json") ? true : undefined,
+    },
+    http: {
+      minItems: toNum(flagValue(args, "--min-items")),
+      escalate: args.includes("--no-escalate") ? false : undefined,
+    },
+  };
+}
+
+function normalizeHostRules(raw: any): Record<string, Partial<HeavySiteRules>> {
+  const out: Record<string, Partial<HeavySiteRules>> = {};
+  if (!isPlainObject(raw)) return out;
+  for (const [host, r] of Object.entries(raw)) {
+    if (!isPlainObject(r)) continue;
+    const rule: Partial<HeavySiteRules> = {};
+    if (r.blockAnalytics != null) rule.blockAnalytics = !!r.blockAnalytics;
+    if (Array.isArray(r.blockedResourceTypes)) {
+      rule.blockedResourceTypes = r.blockedResourceTypes.map(String);
+    }
+    if (r.blockedHostsRe != null) rule.blockedHostsRe = String(r.blockedHostsRe);
+    out[host.toLowerCase()] = rule;
+  }
+  return out;
+}
+
+function normalizePoliteHosts(raw: any): Record<string, Partial<PolitenessRules>> {
+  const out: Record<string, Partial<PolitenessRules>> = {};
+  if (!isPlainObject(raw)) return out;
+  for (const [host, r] of Object.entries(raw)) {
+    if (!isPlainObject(r)) continue;
+    const rule: Partial<PolitenessRules> = {};
+    for (const k of ["minDelayMs", "jitterMs", "maxPerMinute"] as const) {
+      if (r[k] != null) rule[k] = Math.max(0, Number(r[k]) || 0);
+    }
+    if (r.robots != null) rule.robots = !!r.robots;
+    if (Array.isArray(r.allowPaths)) rule.allowPaths = r.allowPaths.map(String);
+    out[host.toLowerCase()] = rule;
+  }
+  return out;
+}
+
+// node:sqlite is built in from Node 22.5 (behind --experimental-sqlite until 22.13)
+function hasSqlite() {
+  try {
+    return !!process.getBuiltinModule?.("node:sqlite");
+  } catch {
+    return false;
+  }
+}
+
+function normalize(raw: Record<string, any>, sources: string[]): FlowScrapeConfig {
+  const viewport = parseViewport(raw.viewport);
+  if (!viewport) {
+    throw new Error(
+      `[config] invalid viewport ${JSON.stringify(raw.viewport)} (expected "WIDTHxHEIGHT"; from ${sources.join(" < ")})`
+    );
+  }
+  const words = (x: any) => (Array.isArray(x) ? x.map(String) : []);
+  // fail before the browser starts rather than on the first write
+  if (words(raw.storage?.sinks).includes("sqlite") && !hasSqlite()) {
+    throw new Error(
+      `[config] the sqlite sink needs Node 22.5+ (node:sqlite, --experimental-sqlite before 22.13); this is ${process.version}`
+    );
+  }
+
+  return {
+    headless: raw.headless !== false,
+    viewport,
+    locale: String(raw.locale || "en-US"),
+    timezoneId: String(raw.timezoneId || raw.timezone || "UTC"),
+    userAgent: raw.userAgent ? String(raw.userAgent) : undefined,
+    maxPages: Math.max(1, Number(raw.maxPages) || 1),
+    debug: {
+      routing: !!raw.debug?.routing,
+      clicks: !!raw.debug?.clicks,
+      steps: !!raw.debug?.steps,
+      network: !!raw.debug?.network,
+      trace: !!raw.debug?.trace,
+    },
+    i18n: {
+      acceptWords: words(raw.i18n?.acceptWords),
+      closeWords: words(raw.i18n?.closeWords),
+      shopWords: words(raw.i18n?.shopWords),
+      loadMoreWords: words(raw.i18n?.loadMoreWords),
+    },
+    heavySite: {
+      blockAnalytics: !!raw.heavySite?.blockAnalytics,
+      blockedResourceTypes: words(raw.heavySite?.blockedResourceTypes),
+      blockedHostsRe: String(raw.heavySite?.blockedHostsRe || ""),
+      hosts: normalizeHostRules(raw.heavySite?.hosts),
+    },
+    exhaust: {
+      maxRounds: Number(raw.exhaust?.maxRounds) || 12,
+      maxMs: Number(raw.exhaust?.maxMs) || 20000,
+      plateauRounds: Number(raw.exhaust?.plateauRounds) || 2,
+    },
+    pool: {
+      concurrency: Math.max(1, Number(raw.pool?.concurrency) || 1),
+      perHost: Math.max(1, Number(raw.pool?.perHost) || 1),
+      pagesPerContext: Math.max(1, Number(raw.pool?.pagesPerContext) || 20),
+    },
+    politeness: {
+      minDelayMs: Math.max(0, Number(raw.politeness?.minDelayMs ?? 1000)),
+      jitterMs: Math.max(0, Number(raw.politeness?.jitterMs ?? 500)),
+      maxPerMinute: Math.max(0, Number(raw.politeness?.maxPerMinute ?? 30)),
+      robots: raw.politeness?.robots !== false,
+      allowPaths: words(raw.politeness?.allowPaths),
+      hosts: normalizePoliteHosts(raw.politeness?.hosts),
+    },
+    storage: {
+      dir: String(raw.storage?.dir || "storage"),
+      sinks: words(raw.storage?.sinks).length ? words(raw.storage.sinks) : ["jsonl"],
+    },
+    adapters: Array.isArray(raw.adapters) ? words(raw.adapters) : ["shopify", "woocommerce", "searchspring", "algolia", "klevu", "constructor", "bloomreach"],
+    capture: {
+      json: raw.capture?.json === true,
+      maxResponses: Math.max(1, Number(raw.capture?.maxResponses) || 40),
+      maxBytes: Math.max(1024, Number(raw.capture?.maxBytes) || 5_000_000),
+    },
+    http: {
+      minItems: Math.max(0, Number(raw.http?.minItems ?? 3)),
+      timeoutMs: Math.max(1000, Number(raw.http?.timeoutMs) || 20000),
+      escalate: raw.http?.escalate !== false,
+    },
+    queue: {
+      maxAttempts: Math.max(1, Number(raw.queue?.maxAttempts) || 3),
+      backoffMs: Math.max(0, Number(raw.queue?.backoffMs ?? 5000)),
+      maxBackoffMs: Math.max(0, Number(raw.queue?.maxBackoffMs ?? 60000)),
+    },
+  };
+}
+
+/**
+ * Most specific per-host override: keys match by host suffix, so
+ * "nike.com" also covers "www.nike.com" and "store.nike.com".
+ */
+export function hostOverride<T>(hosts: Record<string, T> | undefined, host: string): T | undefined {
+  const h = host.replace(/^www\./, "").toLowerCase();
+  const key = Object.keys(hosts || {})
+    .filter((k) => {
+      const kk = k.replace(/^www\./, "").toLowerCase();
+      return h === kk || h.endsWith(`.${kk}`);
+    })
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? hosts![key] : undefined;
+}
+
+/* ========================= main ========================= */
+
+/**
+ * Build the runtime config. Precedence (low → high):
+ *   configs/defaults.yaml < project override file < FS_* env vars < CLI flags
+ *
+ * The override file is `--config <path>`, else $FS_CONFIG, else
+ * ./flowscrape.config.yaml when it exists.
+ */
+export function loadConfig(
+  opts: { args?: string[]; env?: NodeJS.ProcessEnv } = {}
+): FlowScrapeConfig {
+  const args = opts.args ?? [];
+  const env = opts.env ?? process.env;
+  const sources: string[] = [];
+
+  let merged: Record<string, any> = {};
+  if (existsSync(DEFAULTS_PATH)) {
+    merged = readYaml(DEFAULTS_PATH);
+    sources.push(DEFAULTS_PATH);
+  }
+
+  const explicit = flagValue(args, "--config") || env.FS_CONFIG;
+  if (explicit && !existsSync(explicit)) {
+    throw new Error(`[config] override file not found: ${explicit}`);
+  }
+  const overridePath = explicit || (existsSync(PROJECT_PATH) ? PROJECT_PATH : "");
+  if (overridePath) {
+    merged = deepMerge(merged, readYaml(overridePath));
+    sources.push(overridePath);
+  }
+
+  merged = deepMerge(merged, fromEnv(env));
+  sources.push("env");
+  merged = deepMerge(merged, fromArgs(args));
+  sources.push("cli");
+
+  return normalize(merged, sources);
+}
@@ -1,4 +1,6 @@
 // src/router.ts
+import { detectSearchProvider } from "../adapters/search.js";
+
 export type PageKind =
   | "shopify"
   | "bigcommerce"
@@ -11,6 +13,7 @@ export type PageKind =
 export type PageClassification = {
   kind: PageKind;
   confidence: number; // 0..1
+  search?: string; // hosted search provider (searchspring, algolia…), on top of the kind
 };
 
 const KNOWN_RETAIL_DOMAINS = [
@@ -47,8 +50,15 @@ export async function classifyPage(
   url: string,
   opts?: {
     autodetectConfidence?: number;
+    requests?: string[]; // XHR / fetch URLs the page made (search provider detection)
   }
 ): Promise<PageClassification> {
+  const cls = classifyKind(html, url, opts);
+  const search = detectSearchProvider(html, opts?.requests);
+  return search ? { ...cls, search } : cls;
+}
+
+function classifyKind(html: string, url: string, opts?: { autodetectConfidence?: number }): PageClassification {
   const u = url.toLowerCase();
   const h = html.toLowerCase();
   const combo = u + h;
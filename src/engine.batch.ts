@@ -0,0 +1,301 @@
+// src/engine.batch.ts
+import { readFileSync } from "node:fs";
+import { run } from "./engine.js";
+import { runRaw } from "./engine.raw.js";
+import { runHttp } from "./engine.http.js";
+import { newRunId } from "./storage/envelope.js";
+import { Job, saveJob, enqueueRun, loadRun, maxAttemptsFor, retryDelay } from "./storage/queue.js";
+import { judgeRun, failureFromError, Failure, FailureKind, EngineResult } from "./steps/outcome.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { createContextPool, ContextPool } from "./browser/pool.js";
+import { withRun, urlReport, UrlReport } from "./storage/runs.js";
+import { log, print } from "./log.js";
+
+/* ============ types ============ */
+
+export type BatchMode = "normal" | "raw" | "http";
+
+/** One input line: a bare URL, or an NDJSON object with per-URL options. */
+export type BatchEntry = {
+  url: string;
+  mode?: BatchMode;
+  maxPages?: number;
+  assist?: boolean; // raw only
+  blockHeavy?: boolean;
+};
+
+export type BatchOpts = {
+  mode?: BatchMode; // default for entries that don't set one
+  maxPages?: number;
+  assist?: boolean;
+  blockHeavy?: boolean;
+  headless?: boolean;
+  config?: FlowScrapeConfig;
+  args?: string[]; // recorded in the run manifest
+};
+
+export type BatchResult = {
+  url: string;
+  mode: BatchMode;
+  ok: boolean;
+  skipped: boolean; // robots.txt said no; counted apart from failures
+  items: number;
+  pages: number;
+  ms: number; // last attempt
+  attempts: number;
+  errorKind?: FailureKind;
+  error?: string;
+};
+
+const MODES: BatchMode[] = ["normal", "raw", "http"];
+
+/* ============ input ============ */
+
+function toEntry(v: any, lineNo: number): BatchEntry {
+  const where = `[batch] line ${lineNo}`;
+  if (!v || typeof v !== "object" || typeof v.url !== "string") {
+    throw new Error(`${where}: expected {"url": "http…", …}`);
+  }
+  if (!/^https?:\/\//i.test(v.url)) throw new Error(`${where}: not an http(s) URL: ${v.url}`);
+  if (v.mode != null && !MODES.includes(v.mode)) {
+    throw new Error(`${where}: mode must be ${MODES.join(" | ")} (got "${v.mode}")`);
+  }
+  if (v.maxPages != null && !(Number(v.maxPages) > 0)) {
+    throw new Error(`${where}: maxPages must be a positive number`);
+  }
+  return {
+    url: v.url,
+    mode: v.mode,
+    maxPages: v.maxPages != null ? Number(v.maxPages) : undefined,
+    assist: v.assist != null ? !!v.assist : undefined,
+    blockHeavy: v.blockHeavy != null ? !!v.blockHeavy : undefined,
+  };
+}
+
+/**
+ * One URL per line, or one JSON object per line (NDJSON), mixed freely.
+ * Blank lines and `#` comments are skipped; a bad line fails the whole
+ * batch before anything is launched.
+ */
+export function parseBatchInput(text: string): BatchEntry[] {
+  const out: BatchEntry[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    if (line.startsWith("{")) {
+      let v: any;
+      try {
+        v = JSON.parse(line);
+      } catch (e: any) {
+        throw new Error(`[batch] line ${i + 1}: invalid JSON (${e?.message || e})`);
+      }
+      out.push(toEntry(v, i + 1));
+    } else {
+      out.push(toEntry({ url: line }, i + 1));
+    }
+  });
+  return out;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const c of process.stdin) chunks.push(Buffer.from(c));
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/** `--urls file.txt`, or `-` for stdin. */
+export async function readBatchInput(source: string): Promise<BatchEntry[]> {
+  const text = source === "-" ? await readStdin() : readFileSync(source, "utf8");
+  return parseBatchInput(text);
+}
+
+/* ============ run ============ */
+
+type Shared = {
+  pool: ContextPool;
+  config: FlowScrapeConfig;
+  runId: string;
+  report: (r: UrlReport) => void; // into the run manifest
+};
+
+async function runJob(job: Job, opts: BatchOpts, shared: Shared): Promise<EngineResult> {
+  const { pool, config, runId } = shared;
+  const common = { headless: opts.headless, blockHeavy: job.blockHeavy, maxPages: job.maxPages, pool, config, runId };
+  if (job.mode === "raw") return runRaw(job.url, { ...common, assist: job.assist, teach: false });
+  if (job.mode === "http") return runHttp(job.url, common);
+  return run(job.url, common);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// one attempt; the job comes back pending (with backoff), done or failed
+async function attempt(job: Job, opts: BatchOpts, shared: Shared) {
+  const policy = shared.config.queue;
+  job.state = "running";
+  job.attempts += 1;
+  saveJob(job, shared.config.storage.dir);
+
+  const t0 = Date.now();
+  let res: EngineResult | null = null;
+  let failure: Failure | null;
+  try {
+    res = await runJob(job, opts, shared);
+    job.items = res.items.length;
+    job.pages = res.pages;
+    failure = judgeRun(res);
+  } catch (e: any) {
+    failure = failureFromError(e, job.url);
+  }
+  job.ms = Date.now() - t0;
+  shared.report({ ...urlReport(job.url, t0, res, failure), attempts: job.attempts });
+
+  if (!failure) {
+    job.state = "done";
+    job.lastError = job.errorKind = job.notBefore = undefined;
+  } else if (failure.kind === "robots") {
+    job.state = "skipped";
+    job.lastError = failure.message;
+    job.errorKind = failure.kind;
+    job.notBefore = undefined;
+    log.info(`[batch] ${job.url} skipped — disallowed by robots.txt`);
+  } else {
+    job.lastError = failure.message;
+    job.errorKind = failure.kind;
+    const max = maxAttemptsFor(failure.kind, policy);
+    if (job.attempts < max) {
+      const wait = retryDelay(job.attempts, policy);
+      job.state = "pending";
+      job.notBefore = Date.now() + wait;
+      log.warn(`[batch] ${job.url} ${failure.kind} (attempt ${job.attempts}/${max}) — retrying in ${(wait / 1000).toFixed(0)}s`);
+    } else {
+      job.state = "failed";
+      job.notBefore = undefined;
+      log.error(`[batch] ${job.url} failed (${failure.kind}, ${job.attempts} attempt(s)):`, failure.message);
+    }
+  }
+  saveJob(job, shared.config.storage.dir);
+}
+
+/**
+ * Work through a run's jobs with `pool.concurrency` workers sharing one
+ * context pool (`pool.perHost` per host). Every state change lands in
+ * <storage.dir>/queue.jsonl, so a dead process can be picked up with --resume.
+ */
+async function drain(runId: string, jobs: Job[], opts: BatchOpts, config: FlowScrapeConfig): Promise<BatchResult[]> {
+  const pool = createContextPool(config, { headless: opts.headless, log });
+  const open = () => jobs.filter((j) => j.state === "pending");
+  log.info(
+    `[batch] run ${runId}: ${open().length}/${jobs.length} job(s) to do, concurrency ${config.pool.concurrency} (per host ${config.pool.perHost})`
+  );
+
+  const worker = async (shared: Shared) => {
+    for (;;) {
+      const waiting = open();
+      if (!waiting.length) return;
+      const now = Date.now();
+      const job = waiting.find((j) => (j.notBefore ?? 0) <= now);
+      if (!job) {
+        // everything left is backing off
+        await sleep(Math.max(50, Math.min(...waiting.map((j) => j.notBefore ?? now)) - now));
+        continue;
+      }
+      log.info(`[batch] (${jobs.indexOf(job) + 1}/${jobs.length}) ${job.mode ?? "normal"} ${job.url}` + (job.attempts ? ` — attempt ${job.attempts + 1}` : ""));
+      await attempt(job, opts, shared);
+    }
+  };
+
+  try {
+    const n = Math.max(1, Math.min(config.pool.concurrency, open().length));
+    const urls = jobs.map((j) => j.url);
+    await withRun(config, { runId, engine: "batch", urls, args: opts.args }, (report) => {
+      const shared: Shared = { pool, config, runId, report };
+      return Promise.all(Array.from({ length: n }, () => worker(shared)));
+    });
+  } finally {
+    await pool.close();
+  }
+
+  const ps = pool.stats();
+  log.info(`[batch] contexts → created:${ps.created} reused:${ps.reused} recycled:${ps.recycled} crashed:${ps.crashed}`);
+  const results = jobs.map(toResult);
+  printSummary(results);
+  return results;
+}
+
+function toResult(j: Job): BatchResult {
+  return {
+    url: j.url,
+    mode: j.mode ?? "normal",
+    ok: j.state === "done",
+    skipped: j.state === "skipped",
+    items: j.items ?? 0,
+    pages: j.pages ?? 0,
+    ms: j.ms ?? 0,
+    attempts: j.attempts,
+    errorKind: j.errorKind,
+    error: j.lastError,
+  };
+}
+
+/** Queue every entry under a new runId, then drain the queue. */
+export async function runBatch(entries: BatchEntry[], opts: BatchOpts = {}): Promise<BatchResult[]> {
+  const config = opts.config ?? loadConfig();
+  if (!entries.length) {
+    log.info("[batch] nothing to do (0 URLs)");
+    return [];
+  }
+  const runId = newRunId();
+  // options are resolved now so --resume replays exactly this run
+  const jobs = enqueueRun(
+    runId,
+    entries.map((e) => ({
+      url: e.url,
+      mode: e.mode ?? opts.mode ?? "normal",
+      maxPages: e.maxPages ?? opts.maxPages,
+      assist: e.assist ?? opts.assist,
+      blockHeavy: e.blockHeavy ?? opts.blockHeavy,
+    })),
+    config.storage.dir
+  );
+  return drain(runId, jobs, opts, config);
+}
+
+/**
+ * Continue an interrupted run (the latest one with unfinished jobs unless
+ * `runId` is given). Done and failed jobs are left alone.
+ */
+export async function resumeBatch(runId: string | undefined, opts: BatchOpts = {}): Promise<BatchResult[]> {
+  const config = opts.config ?? loadConfig();
+  const found = loadRun(runId, config.storage.dir);
+  if (!found) {
+    throw new Error(runId ? `[batch] no jobs for run ${runId}` : "[batch] no unfinished run to resume");
+  }
+  // backoff deadlines from a dead process don't matter anymore
+  for (const j of found.jobs) j.notBefore = undefined;
+  return drain(found.runId, found.jobs, opts, config);
+}
+
+/** 0 = all ok (skips included), 2 = some failed, 1 = all failed. */
+export function batchExitCode(results: BatchResult[]): number {
+  const failed = results.filter((r) => !r.ok && !r.skipped).length;
+  if (!failed) return 0;
+  return failed === results.filter((r) => !r.skipped).length ? 1 : 2;
+}
+
+function printSummary(results: BatchResult[]) {
+  const ok = results.filter((r) => r.ok);
+  const skipped = results.filter((r) => r.skipped).length;
+  print(
+    `\n[batch] Summary → ok:${ok.length} failed:${results.length - ok.length - skipped} skipped:${skipped} items:${ok.reduce((n, r) => n + r.items, 0)}`
+  );
+  for (const r of results) {
+    const secs = (r.ms / 1000).toFixed(1);
+    print(
+      r.ok
+        ? `  ✓ ${r.url}  [${r.mode}] items:${r.items} pages:${r.pages} ${secs}s` + (r.attempts > 1 ? ` (${r.attempts} attempts)` : "")
+        : r.skipped
+          ? `  ⊘ ${r.url}  [${r.mode}] skipped — ${r.error ?? "robots.txt"}`
+          : `  ✗ ${r.url}  [${r.mode}] ${r.errorKind ?? "not run"} after ${r.attempts} attempt(s) — ${r.error ?? ""}`
+    );
+  }
+}
@@ -0,0 +1,115 @@
+// src/engine.http.ts
+import { run, planNormalExtraction, extractWithPlan, RunOpts } from "./engine.js";
+import { loadLearnedSelectors } from "./learn/learn.js";
+import { writePageOnce, writeItems, getStats } from "./storage/storage.js";
+import { withEnvelope, newRunId } from "./storage/envelope.js";
+import { paginateStatic } from "./steps/paginate.js";
+import { failureFromError, Failure, EngineResult } from "./steps/outcome.js";
+import { withFallbackLocale } from "./extract/price.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { fetchHtml, HttpPage } from "./browser/http.js";
+import { assertRobotsAllowed, paceHost, politeGate } from "./browser/polite.js";
+import { tryAdapters, emitAdapterItems } from "./adapters/adapters.js";
+import { log } from "./log.js";
+
+/* ============ main ============ */
+
+/**
+ * --http: fetch the page without a browser and run the normal engine's
+ * classification / learned-profile / extraction pipeline on the raw HTML,
+ * following next-page links the same way. Flow clicks and scrolling can't
+ * happen here, so a thin result (< http.minItems) is re-run with `run()`
+ * on a pooled browser page unless http.escalate is off.
+ */
+export async function runHttp(url: string, opts: RunOpts = {}): Promise<EngineResult> {
+  loadLearnedSelectors();
+
+  const config = opts.config ?? loadConfig();
+  // pages that declare no lang fall back to the configured locale for prices
+  return withFallbackLocale(config.locale, () => scrapeStatic(url, config, opts));
+}
+
+async function scrapeStatic(url: string, config: FlowScrapeConfig, opts: RunOpts): Promise<EngineResult> {
+  await assertRobotsAllowed(url, config, log);
+
+  log.info("[http] fetching:", url);
+  let first: HttpPage | null = null;
+  let nav: Failure | undefined;
+  try {
+    await paceHost(url, config, log);
+    first = await fetchHtml(url, config);
+    log.debug(`[http] ${first.status} ${first.contentType || "?"} ${first.html.length} bytes ← ${first.url}`);
+    if (first.status >= 400) nav = { kind: "other", message: `HTTP ${first.status}`, url };
+  } catch (err: any) {
+    nav = failureFromError(err, url);
+    log.warn(`[http] fetch failed (${nav.kind}):`, url, nav.message);
+  }
+
+  const plan = first?.html ? await planNormalExtraction(first.html, first.url) : null;
+
+  // the platform's own JSON (Shopify products.json…) first; no escalation after it
+  const viaApi = plan
+    ? await tryAdapters(plan.kind, first.url, { config, maxPages: opts.maxPages ?? config.maxPages, html: first.html })
+    : null;
+  if (viaApi) {
+    log.info("[http] extracted items:", viaApi.items.length, `(via ${viaApi.adapter})`);
+    const res = await emitAdapterItems(url, first.html, viaApi, { engine: "http", kind: plan.kind, runId: opts.runId });
+    return { ...res, classification: plan.cls };
+  }
+
+  const paged = plan
+    ? await paginateStatic(
+        first.html,
+        first.url,
+        (html, _pageNo, pageUrl) => extractWithPlan(html, pageUrl, plan),
+        {
+          maxPages: opts.maxPages ?? config.maxPages,
+          beforeGoto: (u) => politeGate(u, config, log),
+          onPage: (pageUrl, html) => writePageOnce(pageUrl, html),
+          log,
+        },
+        async (u) => {
+          const p = await fetchHtml(u, config);
+          if (p.status >= 400) throw new Error(`HTTP ${p.status}`);
+          return { html: p.html, url: p.url };
+        }
+      )
+    : null;
+
+  const found = paged?.items.length ?? 0;
+  if (config.http.escalate && found < config.http.minItems) {
+    const why = nav ? nav.message : `${found} item(s) < http.minItems ${config.http.minItems}`;
+    log.info(`[http] static result too thin (${why}) — escalating to the browser`);
+    const res = await run(url, opts);
+    return { ...res, escalated: true };
+  }
+
+  const items = withEnvelope(paged?.items ?? [], {
+    sourceUrl: url,
+    runId: opts.runId ?? newRunId(),
+    engine: "http",
+    kind: plan?.kind,
+    profileId: plan?.profileId,
+  });
+  log.info("[http] extracted items:", items.length, paged ? `(pages: ${paged.pages}, stop: ${paged.stopReason})` : "");
+
+  if (first?.html) await writePageOnce(first.url, first.html);
+  if (items.length) await writeItems(items);
+
+  const stats = getStats();
+  log.info(
+    `[FlowScrape] Summary → pages:${stats.pages} items:${stats.items} browser:no`
+  );
+
+  return {
+    engine: "http",
+    kind: plan?.kind,
+    classification: plan?.cls,
+    items,
+    pages: paged?.pages ?? 0,
+    selectors: { list: plan?.listSelectors ?? [], fields: plan?.fields ?? {} },
+    htmlBytes: first?.html.length ?? 0,
+    nav,
+    escalated: false,
+  };
+}
@@ -1,5 +1,5 @@
 // src/engine.raw.ts
-import { chromium, Page } from "playwright";
+import type { Page } from "playwright";
 import { autodetectFromHtml } from "./detect/autodetect.js";
 import {
   loadLearnedSelectors,
@@ -7,26 +7,26 @@ import {
   upsertProfile,
 } from "./learn/learn.js";
 import { extractItems } from "./extract/extract.js";
+import { mergeEmbeddedState } from "./extract/state.js";
 import { writePageOnce, writeItems, getStats } from "./storage/storage.js";
-import { waitIdle } from "./steps/steps.js";
-import { classifyPage } from "./detect/router.js";
+import { withEnvelope, newRunId } from "./storage/envelope.js";
+import { waitIdle, acceptCookies } from "./steps/steps.js";
+import { paginate } from "./steps/paginate.js";
+import { failureFromError, NavOutcome, EngineResult } from "./steps/outcome.js";
+import { exhaustListing, DEFAULT_CARD_SELECTORS } from "./steps/exhaust.js";
+import { parsePrice, withCompareAt, withFallbackLocale } from "./extract/price.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { withPooledPage, ContextPool } from "./browser/pool.js";
+import { assertRobotsAllowed, paceHost, politeGate } from "./browser/polite.js";
+import { formatBlockStats } from "./browser/blocking.js";
+import { classifyPage, PageClassification } from "./detect/router.js";
 import { loadSelectors } from "./utils.js";
 import {
   enableTeachMode,
   waitForTeachOverlay,
   waitForTeachSave,
 } from "./learn/manual.js";
-
-/* logging */
-const LOG_LEVEL = (process.env.FS_LOG_LEVEL || "info").toLowerCase();
-const ORDER: Record<string, number> = { debug: 10, info: 20, warn: 30, error: 40 };
-const canLog = (lvl: string) => (ORDER[lvl] ?? 20) >= (ORDER[LOG_LEVEL] ?? 20);
-const log = {
-  debug: (...a: any[]) => canLog("debug") && console.log("[debug]", ...a),
-  info:  (...a: any[]) => canLog("info")  && console.log("[info]",  ...a),
-  warn:  (...a: any[]) => canLog("warn")  && console.log("[warn]",  ...a),
-  error: (...a: any[]) => canLog("error") && console.log("[error]", ...a),
-};
+import { log } from "./log.js";
 
 type LearnedSavePayload = {
   list?: string[];
@@ -105,7 +105,15 @@ function stripBoilerplateDescription(desc?: string) {
 function coalescePrice(it: any) {
   // prefer numeric-ish price text if present
   const pick = (s?: string) => s && /\d/.test(s) ? s : undefined;
-  it.price = pick(it.salePrice) || pick(it.price) || pick(it.compareAt) || it.price;
+  const price = pick(it.salePrice) || pick(it.price) || pick(it.compareAt) || it.price;
+  if (price !== it.price) {
+    it.price = price;
+    it.priceInfo = price
+      ? parsePrice(String(price), { currency: it.priceInfo?.currency }) ?? undefined
+      : undefined;
+  }
+  // a taught compare-at field feeds the structured compareAt
+  if (it.priceInfo && it.compareAt) it.priceInfo = withCompareAt(it.priceInfo, String(it.compareAt));
   return it;
 }
 
@@ -165,29 +173,28 @@ function postProcessItems(items: any[], baseUrl: string) {
   return scored;
 }
 
-
 /* ===== main ===== */
 
 export async function runRaw(
   url: string,
-  opts: { headless?: boolean; assist?: boolean; teach?: boolean } = {}
-) {
+  opts: {
+    headless?: boolean;
+    assist?: boolean;
+    teach?: boolean;
+    blockHeavy?: boolean;
+    maxPages?: number;
+    config?: FlowScrapeConfig;
+    runId?: string;
+    pool?: ContextPool; // shared contexts (batch); a private one otherwise
+  } = {}
+): Promise<EngineResult> {
   loadLearnedSelectors();
 
-  const browser = await chromium.launch({ headless: opts.headless ?? true });
-  const context = await browser.newContext({
-    bypassCSP: true,
-    ignoreHTTPSErrors: true,
-    viewport: { width: 1366, height: 900 },
-    timezoneId: "America/Toronto",
-    locale: "en-CA",
-    userAgent:
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 " +
-      "(KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 FlowScrape/1.0",
-  });
-  const page = await context.newPage();
-
-  try {
+  const config = opts.config ?? loadConfig();
+  await assertRobotsAllowed(url, config, log);
+  const poolOpts = { headless: opts.headless, blockHeavy: opts.blockHeavy, log };
+  // pages that declare no lang fall back to the configured locale for prices
+  return withFallbackLocale(config.locale, () => withPooledPage(opts.pool, config, url, poolOpts, async ({ page, blocked }) => {
     /* ========== TEACH overlay injection (opt-in) ========== */
     if (opts.teach) {
       await enableTeachMode(page, url, log);
@@ -195,8 +202,8 @@ export async function runRaw(
     /* ========== /TEACH overlay injection ========== */
 
     log.info("[raw] launching:", url);
-    const ok = await safeInitialGoto(page, url);
-    if (ok) await waitIdle(page, 200);
+    const nav = await safeInitialGoto(page, url, config);
+    if (nav.ok) await waitIdle(page, 200);
 
     if (opts.teach) {
       await waitForTeachOverlay(page, log);
@@ -221,14 +228,15 @@ export async function runRaw(
     const host = new URL(url).host;
     log.info("[raw] host:", host);
 
-    /* ensure page actually rendered products */
+    /* ensure page actually rendered products (count learned cards when we have them) */
     await page.waitForTimeout(1000);
-    await ensureCollectionReady(page);
+    const warm = getBestProfile(host, url, html);
+    await ensureCollectionReady(page, config, [...toArray(warm.buckets.list), ...DEFAULT_CARD_SELECTORS]);
     const finalHtml = await safeGetContent(page);
 
-    /* learned — score against fully-rendered HTML */
-    const { profile, buckets: learned, score } = getBestProfile(host, url, finalHtml);
-    const learnedList = toArray(learned.list);
+    /* learned + autodetect + classification — scored against fully-rendered HTML */
+    const planned = await planRawSelectors(finalHtml, url);
+    const { profile, learned, score, learnedList, isCold } = planned;
     log.info(
       "[raw] learned profile:",
       profile?.id || "(none)",
@@ -245,30 +253,10 @@ export async function runRaw(
       "candidates:",
       learned.candidates?.length || 0
     );
-    const COLD_THRESHOLD = 2;
-    const isCold = (score ?? 0) < COLD_THRESHOLD;
-
-    /* autodetect (use finalHtml) */
-    const auto = (autodetectFromHtml(finalHtml, url) as AutoDetectLike | null) || null;
-
-    /* classification (only if nothing at all) — use finalHtml too */
-    let classified: any = null;
-    if (!auto?.listSelector && !learnedList.length) {
-      const cls = await classifyPage(finalHtml, url);
-      const kind = typeof cls === "string" ? cls : cls?.kind;
-      if (kind) {
-        classified = loadSelectors(kind);
-        log.info("[raw] classified as:", kind);
-      }
-    }
+    if (planned.kind) log.info("[raw] classified as:", planned.kind);
 
-    /* fields (make mutable for assisted merge)
-       Precedence: classified < autodetect < learned (manual lives in learned). */
-    let fields: Record<string, { sel: string; attr?: string }> = {
-      ...(classified?.fields || {}),
-      ...(auto?.fields || {}),
-      ...(learned?.fields || {}),
-    };
+    // mutable for assisted merge
+    const fields = planned.fields;
     log.debug("[raw] merged field keys:", Object.keys(fields));
 
     /* ---------------- assisted learn (opt-in & lazy) ---------------- */
@@ -282,7 +270,7 @@ export async function runRaw(
         const assist = await (mod as any).runAssistedLearn({
           url,
           html: finalHtml,
-          seeds: { list: toArray(auto?.listSelector), fields },
+          seeds: { list: toArray(planned.auto?.listSelector), fields },
         });
 
         for (const [k, v] of Object.entries(assist.suggestedFields as Record<string, any>)) {
@@ -301,64 +289,48 @@ export async function runRaw(
     /* ---------------------------------------------------------------- */
 
     /* build buckets to TRY (ordered, no penalizing) */
-    const buckets: Record<string, string[]> = {
-      list: isCold ? [] : learnedList,
-      anchors: unique([
-        ...(learned.anchors || []),
-        ...toArray(auto?.listSelector).map(toAnchorVariant),
-        ...(auto?.candidates || []).filter(isAnchorish),
-      ]),
-      containers: unique([
-        ...(learned.containers || []),
-        ...(auto?.candidates || []).filter(isContainerish),
-      ]),
-      broad: unique([...(learned.broad || []), "a[href*='/product']", "a[href*='/products/']"]),
-      candidates: unique([
-        ...(learned.candidates || []),
-        ...toArray(auto?.listSelector),
-        ...(auto?.candidates || []),
-        ...(Array.isArray(classified?.list) ? classified.list : []),
-      ]),
-    };
-
-    if (assistBuckets) {
-      const prepend = (xs: string[] | undefined, into: string[]) => unique([...(xs || []), ...into]);
-      buckets.anchors    = prepend(assistBuckets.anchors, buckets.anchors).slice(0, 60);
-      buckets.containers = prepend(assistBuckets.containers, buckets.containers).slice(0, 60);
-      buckets.candidates = prepend(assistBuckets.candidates, buckets.candidates).slice(0, 120);
-    }
+    const buckets = buildRawBuckets(planned, assistBuckets);
 
     /* progressive testing */
-    let items: any[] = [];
-    const winners: string[] = [];
-    const tried: string[] = [];
-
-    for (const [bucketName, sels] of Object.entries(buckets)) {
-      if (!sels.length) continue;
-      log.info(`[raw] trying bucket: ${bucketName} (${sels.length} selectors)`);
-      for (const sel of sels) {
-        tried.push(sel);
-        const res = extractItems(finalHtml, [sel], fields);
-        if (res.length) {
-          log.info(`[raw] ✓ success with ${bucketName}:`, sel, `→ ${res.length} items`);
-          items = res; winners.push(sel); break;
-        }
-      }
-      if (items.length) break;
-      const batch = sels.slice(0, 10);
-      if (batch.length) {
-        const res = extractItems(finalHtml, batch, fields);
-        if (res.length) {
-          log.info(`[raw] ✓ batch success in ${bucketName}:`, batch.length, "selectors");
-          items = res; winners.push(...batch); break;
-        }
-      }
-    }
+    const picked = pickFromBuckets(finalHtml, page.url(), buckets, fields);
+    // embedded page state fills gaps after the selectors are picked, so it can't sway the pick
+    let items = mergeEmbeddedState(picked.items, finalHtml, page.url());
+    const { winners, tried } = picked;
 
     log.info("[raw] extracted items:", items.length);
     if (!items.length) log.warn("[raw] 0 items — nothing worked this run");
 
-    items = postProcessItems(items, url);
+    /* pagination: re-use the winning selectors on every further page */
+    let pages = 1;
+    if (items.length) {
+      const firstPage = items;
+      const paged = await paginate(
+        page,
+        finalHtml,
+        (html, pageNo, pageUrl) =>
+          pageNo === 1
+            ? firstPage
+            : mergeEmbeddedState(extractItems(html, winners, fields, undefined, pageUrl), html, pageUrl),
+        {
+          maxPages: opts.maxPages ?? config.maxPages,
+          settle: (p) => ensureCollectionReady(p, config, winners),
+          beforeGoto: (u) => politeGate(u, config, log),
+          onPage: (pageUrl, html) => writePageOnce(pageUrl, html),
+          log,
+        }
+      );
+      items = paged.items;
+      pages = paged.pages;
+      log.info(`[raw] pages: ${paged.pages} (stop: ${paged.stopReason}) → items: ${items.length}`);
+    }
+
+    items = withEnvelope(postProcessItems(items, url), {
+      sourceUrl: url,
+      runId: opts.runId ?? newRunId(),
+      engine: "raw",
+      kind: planned.kind,
+      profileId: profile?.id,
+    });
 
     const good = items.filter(hasTitleHref).length;
     const precision = items.length ? good / items.length : 0;
@@ -377,11 +349,11 @@ export async function runRaw(
 
     const learnedPayload = bucketizeForLearning(tried, winners);
 
-    upsertProfile(host, url, finalHtml, {
+    upsertProfile(host, {
       id: (isCold || precision < 0.5) ? undefined : (latest?.profile?.id ?? profile?.id),
       buckets: { ...learnedPayload, fields: fieldsForSave },
       metrics: { items: items.length },
-    });
+    }, finalHtml);
 
     log.info(
       "[raw] learned selectors saved (profile:",
@@ -390,14 +362,137 @@ export async function runRaw(
     );
 
     const stats = getStats();
-    log.info(`[raw] Summary → pages:${stats.pages} html:${stats.pagesHtml} items:${stats.items}`);
-  } finally {
-    try { await context.close(); } catch {}
-    try { await browser.close(); } catch {}
+    log.info(`[raw] Summary → pages:${stats.pages} items:${stats.items} blocked:${blocked ? formatBlockStats(blocked) : "off"}`);
+    return {
+      engine: "raw",
+      kind: planned.kind,
+      classification: planned.cls,
+      items,
+      pages,
+      selectors: { list: winners, fields },
+      htmlBytes: finalHtml.length,
+      nav: nav.failure,
+      metrics: { precision },
+    };
+  }));
+}
+
+/* ===== offline planning (shared with --replay) ===== */
+
+type RawPlan = Awaited<ReturnType<typeof planRawSelectors>>;
+
+/**
+ * Learned profile + autodetect (+ classification when both are empty) for
+ * one HTML snapshot. Field precedence: classified < autodetect < learned.
+ */
+export async function planRawSelectors(html: string, url: string) {
+  const host = new URL(url).host;
+  const { profile, buckets: learned, score } = getBestProfile(host, url, html);
+  const learnedList = toArray(learned.list);
+  const COLD_THRESHOLD = 2;
+  const isCold = (score ?? 0) < COLD_THRESHOLD;
+
+  const auto = (autodetectFromHtml(html, url) as AutoDetectLike | null) || null;
+
+  /* classification (only if nothing at all) */
+  let classified: any = null;
+  let cls: PageClassification | undefined;
+  let kind: string | undefined;
+  if (!auto?.listSelector && !learnedList.length) {
+    cls = await classifyPage(html, url);
+    kind = (typeof cls === "string" ? cls : cls?.kind) || undefined;
+    if (kind) classified = loadSelectors(kind);
+  }
+
+  const fields: Record<string, { sel: string; attr?: string }> = {
+    ...(classified?.fields || {}),
+    ...(auto?.fields || {}),
+    ...(learned?.fields || {}),
+  };
+
+  return { profile, learned, score, learnedList, isCold, auto, classified, cls, kind, fields };
+}
+
+function buildRawBuckets(
+  plan: RawPlan,
+  assistBuckets?: { anchors: string[]; containers: string[]; candidates: string[] }
+): Record<string, string[]> {
+  const { learned, learnedList, isCold, auto, classified } = plan;
+  const buckets: Record<string, string[]> = {
+    list: isCold ? [] : learnedList,
+    anchors: unique([
+      ...(learned.anchors || []),
+      ...toArray(auto?.listSelector).map(toAnchorVariant),
+      ...(auto?.candidates || []).filter(isAnchorish),
+    ]),
+    containers: unique([
+      ...(learned.containers || []),
+      ...(auto?.candidates || []).filter(isContainerish),
+    ]),
+    broad: unique([...(learned.broad || []), "a[href*='/product']", "a[href*='/products/']"]),
+    candidates: unique([
+      ...(learned.candidates || []),
+      ...toArray(auto?.listSelector),
+      ...(auto?.candidates || []),
+      ...(Array.isArray(classified?.list) ? classified.list : []),
+    ]),
+  };
+
+  if (assistBuckets) {
+    const prepend = (xs: string[] | undefined, into: string[]) => unique([...(xs || []), ...into]);
+    buckets.anchors    = prepend(assistBuckets.anchors, buckets.anchors).slice(0, 60);
+    buckets.containers = prepend(assistBuckets.containers, buckets.containers).slice(0, 60);
+    buckets.candidates = prepend(assistBuckets.candidates, buckets.candidates).slice(0, 120);
   }
+  return buckets;
 }
 
+// first selector (then first batch of 10) that yields items wins, bucket by bucket
+function pickFromBuckets(
+  html: string,
+  pageUrl: string,
+  buckets: Record<string, string[]>,
+  fields: Record<string, { sel: string; attr?: string }>,
+  say: (...a: any[]) => any = log.info
+) {
+  let items: any[] = [];
+  const winners: string[] = [];
+  const tried: string[] = [];
+
+  for (const [bucketName, sels] of Object.entries(buckets)) {
+    if (!sels.length) continue;
+    say(`[raw] trying bucket: ${bucketName} (${sels.length} selectors)`);
+    for (const sel of sels) {
+      tried.push(sel);
+      const res = extractItems(html, [sel], fields, undefined, pageUrl);
+      if (res.length) {
+        say(`[raw] ✓ success with ${bucketName}:`, sel, `→ ${res.length} items`);
+        items = res; winners.push(sel); break;
+      }
+    }
+    if (items.length) break;
+    const batch = sels.slice(0, 10);
+    if (batch.length) {
+      const res = extractItems(html, batch, fields, undefined, pageUrl);
+      if (res.length) {
+        say(`[raw] ✓ batch success in ${bucketName}:`, batch.length, "selectors");
+        items = res; winners.push(...batch); break;
+      }
+    }
+  }
+  return { items, winners, tried };
+}
 
+/** Raw-engine extraction of a stored snapshot (no browser, nothing persisted). */
+export async function extractRawFromHtml(html: string, url: string) {
+  const plan = await planRawSelectors(html, url);
+  const { items } = pickFromBuckets(html, url, buildRawBuckets(plan), plan.fields, log.debug);
+  return {
+    kind: plan.kind,
+    profileId: plan.profile?.id,
+    items: postProcessItems(items, url),
+  };
+}
 
 /* ===== categorize + learning helpers ===== */
 
@@ -457,45 +552,37 @@ async function safeGetContent(page: Page): Promise<string> {
   } catch {
     try { await page.waitForLoadState("domcontentloaded", { timeout: 2000 }); } catch {}
     try { return await page.content(); } catch {
-      console.warn("[raw] WARN: could not get page.content()");
+      log.warn("[raw] could not get page.content()");
       return "";
     }
   }
 }
 
-async function safeInitialGoto(page: Page, url: string): Promise<boolean> {
+async function safeInitialGoto(page: Page, url: string, config: FlowScrapeConfig): Promise<NavOutcome> {
   try {
+    await paceHost(url, config, log);
     await page.goto(url, { waitUntil: "domcontentloaded", timeout: 25000 });
-    return true;
+    return { ok: true };
   } catch (err: any) {
-    console.warn("[raw] WARN: initial goto failed:", url, err?.message || "");
-    return false;
+    const f = failureFromError(err, url);
+    log.warn(`[raw] initial goto failed (${f.kind}):`, url, f.message);
+    return { ok: false, failure: f };
   }
 }
 
 // make sure JS-rendered collections actually load (Shopify, etc.)
-async function ensureCollectionReady(page: Page) {
+async function ensureCollectionReady(page: Page, config: FlowScrapeConfig, listSelector?: string[]) {
   try { await page.locator("button:has-text('Accept')").first().click({ timeout: 1200 }); } catch {}
+  try { await acceptCookies(page, config.i18n.acceptWords); } catch {}
   try { await page.locator("[id*='onetrust'] button:has-text('Accept')").click({ timeout: 1200 }); } catch {}
 
-  try {
-    await page.evaluate(async () => {
-      await new Promise<void>((resolve) => {
-        let last = 0, idle = 0;
-        const step = () => {
-          const sh = document.documentElement.scrollHeight;
-          window.scrollTo(0, sh);
-          setTimeout(() => {
-            const now = document.documentElement.scrollHeight;
-            if (now > last) { last = now; idle = 0; step(); }
-            else if (++idle < 4) step();
-            else resolve();
-          }, 350);
-        };
-        step();
-      });
-    });
-  } catch {}
+  const res = await exhaustListing(page, {
+    ...config.exhaust,
+    loadMoreWords: config.i18n.loadMoreWords,
+    listSelector: listSelector?.length ? listSelector : DEFAULT_CARD_SELECTORS,
+    log,
+  });
+  log.debug(`[raw] exhaust: ${res.cards} cards, ${res.rounds} rounds, ${res.clicks} clicks (${res.stopReason})`);
 
   try {
     await page.waitForFunction(
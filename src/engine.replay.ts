@@ -0,0 +1,319 @@
+// src/engine.replay.ts
+import { createReadStream, existsSync, readdirSync, writeFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { dirname, join } from "node:path";
+import { load } from "cheerio";
+import { loadLearnedSelectors } from "./learn/learn.js";
+import { extractNormalFromHtml } from "./engine.js";
+import { extractRawFromHtml } from "./engine.raw.js";
+import { extractTeachFromHtml } from "./engine.teach.js";
+import { withEnvelope, newRunId } from "./storage/envelope.js";
+import { runDir } from "./storage/runs.js";
+import { log, print } from "./log.js";
+
+/* ============ types ============ */
+
+export type ReplayEngine = "normal" | "raw" | "teach";
+
+export type SnapshotFilter = {
+  url?: string; // exact page URL (hash / trailing slash ignored)
+  host?: string; // www. ignored
+  since?: number; // epoch ms, inclusive
+  until?: number; // epoch ms, inclusive
+  all?: boolean; // keep every snapshot instead of the latest per URL
+  dir?: string; // storage root (config storage.dir), default "storage"
+  run?: string; // only this run's snapshots (storage/runs/<runId>/)
+};
+
+export type ReplayOpts = SnapshotFilter & {
+  engine?: ReplayEngine;
+  out?: string; // write items here (JSONL) instead of printing them
+  compare?: boolean; // diff against the stored items.jsonl files
+};
+
+export type Snapshot = {
+  url: string;
+  html: string;
+  ts: number;
+  dir?: string; // directory the snapshot was read from (its run dir, or the flat storage/)
+};
+
+// a stored item with where / when it was written, to pair it with snapshots
+type StoredItem = { item: any; dir: string; ts: number };
+
+export type ReplayDiff = {
+  stored: number;
+  matched: number;
+  added: string[]; // hrefs only the replay found
+  missing: string[]; // hrefs only the stored run had
+  changed: Record<string, number>; // field → matched items whose value differs
+};
+
+export type ReplayResult = {
+  url: string;
+  ts: number;
+  kind?: string;
+  profileId?: string;
+  items: any[];
+  diff?: ReplayDiff;
+};
+
+const PAGES_HTML = "pages.html.jsonl";
+const ITEMS = "items.jsonl";
+const COMPARED_FIELDS = ["title", "price", "image", "description"];
+
+/* ============ helpers ============ */
+
+function stripHost(h: string) {
+  return h.replace(/^www\./i, "").toLowerCase();
+}
+
+function pageKey(u: string) {
+  try {
+    const x = new URL(u);
+    x.hash = "";
+    return x.toString().replace(/\/+$/, "");
+  } catch {
+    return u.replace(/#.*$/, "").replace(/\/+$/, "");
+  }
+}
+
+// same rules raw/teach use before dedupe: absolute, no hash, no utm_*, no trailing slash
+function hrefKey(href: any, base: string) {
+  if (!href) return "";
+  try {
+    const u = new URL(String(href), base);
+    u.hash = "";
+    for (const k of [...u.searchParams.keys()]) {
+      if (/^utm_/i.test(k)) u.searchParams.delete(k);
+    }
+    return u.toString().replace(/\/+$/, "");
+  } catch {
+    return String(href);
+  }
+}
+
+/** "2025-01-31", "2025-01-31T12:00" or epoch ms → epoch ms. */
+export function parseWhen(v?: string): number | undefined {
+  if (!v) return undefined;
+  if (/^\d{10,}$/.test(v)) return Number(v);
+  const t = Date.parse(v);
+  if (Number.isNaN(t)) throw new Error(`[replay] cannot parse time "${v}"`);
+  return t;
+}
+
+/**
+ * Every copy of `name` a jsonl sink wrote: one per run dir, plus the flat
+ * storage/ layout from before runs had their own directory.
+ */
+function storedFiles(name: string, filter: SnapshotFilter = {}): string[] {
+  const base = filter.dir ?? "storage";
+  if (filter.run) return [join(runDir(base, filter.run), name)].filter((f) => existsSync(f));
+  const runs = join(base, "runs");
+  const dirs = existsSync(runs) ? readdirSync(runs).sort().map((id) => runDir(base, id)) : [];
+  return [base, ...dirs].map((d) => join(d, name)).filter((f) => existsSync(f));
+}
+
+async function* readJsonl(path: string): AsyncGenerator<any> {
+  const rl = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // skip torn lines (e.g. a run killed mid-append)
+    }
+  }
+}
+
+/* ============ snapshots ============ */
+
+/** Stream every stored pages.html.jsonl and keep the snapshots matching the filter. */
+export async function readSnapshots(filter: SnapshotFilter = {}): Promise<Snapshot[]> {
+  const files = storedFiles(PAGES_HTML, filter);
+  if (!files.length) {
+    const where = filter.run ? runDir(filter.dir ?? "storage", filter.run) : filter.dir ?? "storage";
+    throw new Error(`[replay] no snapshots yet (no ${PAGES_HTML} under ${where}/)`);
+  }
+  const wantUrl = filter.url ? pageKey(filter.url) : "";
+  const wantHost = filter.host ? stripHost(filter.host) : "";
+
+  const kept: Snapshot[] = [];
+  const latest = new Map<string, Snapshot>();
+
+  for (const file of files) {
+    for await (const rec of readJsonl(file)) {
+      if (!rec?.url || typeof rec.html !== "string") continue;
+      const ts = Number(rec.ts) || 0;
+      if (filter.since != null && ts < filter.since) continue;
+      if (filter.until != null && ts > filter.until) continue;
+      const key = pageKey(rec.url);
+      if (wantUrl && key !== wantUrl) continue;
+      if (wantHost) {
+        let h = "";
+        try { h = stripHost(new URL(rec.url).host); } catch {}
+        if (h !== wantHost) continue;
+      }
+
+      const snap = { url: rec.url, html: rec.html, ts, dir: dirname(file) };
+      if (filter.all) kept.push(snap);
+      else if ((latest.get(key)?.ts ?? -1) <= ts) latest.set(key, snap);
+    }
+  }
+
+  const out = filter.all ? kept : [...latest.values()];
+  return out.sort((a, b) => a.ts - b.ts);
+}
+
+/* ============ compare ============ */
+
+async function readStoredItems(filter: SnapshotFilter): Promise<StoredItem[]> {
+  const out: StoredItem[] = [];
+  for (const file of storedFiles(ITEMS, filter)) {
+    for await (const it of readJsonl(file)) {
+      if (it?.href) out.push({ item: it, dir: dirname(file), ts: Date.parse(it.scrapedAt) || 0 });
+    }
+  }
+  return out;
+}
+
+/**
+ * Stored items carry no page reference, so an item counts as "from this
+ * snapshot" when its href is linked from the snapshot HTML (or when it has
+ * a matching sourceUrl). Per href, the copy from the snapshot's own run
+ * wins, then the one scraped closest to the snapshot.
+ */
+function storedForSnapshot(stored: StoredItem[], snap: Snapshot): Map<string, any> {
+  const $ = load(snap.html);
+  const links = new Set(
+    $("a[href]")
+      .toArray()
+      .map((a) => hrefKey($(a).attr("href"), snap.url))
+  );
+  const snapKey = pageKey(snap.url);
+
+  const distance = (s: StoredItem) => (s.dir === snap.dir ? 0 : 1e15) + Math.abs(s.ts - snap.ts);
+  const best = new Map<string, StoredItem>();
+  for (const s of stored) {
+    const it = s.item;
+    const k = hrefKey(it.href, snap.url);
+    const fromHere = it.sourceUrl ? pageKey(it.sourceUrl) === snapKey : links.has(k);
+    if (!fromHere) continue;
+    const cur = best.get(k);
+    if (!cur || distance(s) <= distance(cur)) best.set(k, s);
+  }
+  return new Map([...best].map(([k, s]) => [k, s.item]));
+}
+
+function norm(v: any) {
+  return v == null ? "" : String(v).replace(/\s+/g, " ").trim();
+}
+
+function diffItems(replayed: any[], stored: Map<string, any>, base: string): ReplayDiff {
+  const mine = new Map<string, any>();
+  for (const it of replayed) {
+    const k = hrefKey(it.href, base);
+    if (k && !mine.has(k)) mine.set(k, it);
+  }
+
+  const changed: Record<string, number> = {};
+  let matched = 0;
+  for (const [k, it] of mine) {
+    const old = stored.get(k);
+    if (!old) continue;
+    matched++;
+    for (const f of COMPARED_FIELDS) {
+      if (norm(it[f]) !== norm(old[f])) changed[f] = (changed[f] || 0) + 1;
+    }
+  }
+
+  return {
+    stored: stored.size,
+    matched,
+    added: [...mine.keys()].filter((k) => !stored.has(k)),
+    missing: [...stored.keys()].filter((k) => !mine.has(k)),
+    changed,
+  };
+}
+
+/* ============ main ============ */
+
+async function extractSnapshot(engine: ReplayEngine, snap: Snapshot) {
+  if (engine === "raw") return extractRawFromHtml(snap.html, snap.url);
+  if (engine === "teach") return extractTeachFromHtml(snap.html, snap.url);
+  return extractNormalFromHtml(snap.html, snap.url);
+}
+
+/**
+ * Re-run classification, autodetect, learned profiles and extraction on
+ * stored HTML — no browser, no network, nothing written to storage/.
+ */
+export async function runReplay(opts: ReplayOpts = {}): Promise<ReplayResult[]> {
+  loadLearnedSelectors();
+  const engine = opts.engine ?? "normal";
+  const runId = newRunId();
+
+  const snaps = await readSnapshots(opts);
+  log.info(`[replay] ${snaps.length} snapshot(s), engine: ${engine}`);
+  if (!snaps.length) return [];
+
+  const stored = opts.compare ? await readStoredItems(opts) : [];
+  const results: ReplayResult[] = [];
+
+  for (const snap of snaps) {
+    const when = new Date(snap.ts).toISOString();
+    let res: { kind?: string; profileId?: string; items: any[] };
+    try {
+      res = await extractSnapshot(engine, snap);
+    } catch (e: any) {
+      log.warn(`[replay] ${snap.url} (${when}) failed:`, e?.message || e);
+      continue;
+    }
+
+    const result: ReplayResult = {
+      url: snap.url,
+      ts: snap.ts,
+      kind: res.kind,
+      profileId: res.profileId,
+      // scrapedAt is the snapshot time: that's when the page looked like this
+      items: withEnvelope(res.items, {
+        sourceUrl: snap.url,
+        runId,
+        engine,
+        kind: res.kind,
+        profileId: res.profileId,
+        scrapedAt: snap.ts,
+      }).map((it) => ({ ...it, snapshotTs: snap.ts })),
+    };
+    log.info(
+      `[replay] ${snap.url} (${when}) → ${result.items.length} items` +
+        (result.kind ? ` kind:${result.kind}` : "") +
+        (result.profileId ? ` profile:${result.profileId}` : "")
+    );
+
+    if (opts.compare) {
+      const diff = diffItems(res.items, storedForSnapshot(stored, snap), snap.url);
+      result.diff = diff;
+      const changed = Object.entries(diff.changed)
+        .map(([f, n]) => `${f}:${n}`)
+        .join(" ");
+      log.info(
+        `[replay]   vs stored: ${diff.stored} stored, ${diff.matched} matched, ` +
+          `+${diff.added.length} new, -${diff.missing.length} missing` +
+          (changed ? `, changed ${changed}` : "")
+      );
+      for (const h of diff.added.slice(0, 10)) log.debug("[replay]   + ", h);
+      for (const h of diff.missing.slice(0, 10)) log.debug("[replay]   - ", h);
+    }
+    results.push(result);
+  }
+
+  const all = results.flatMap((r) => r.items);
+  if (opts.out) {
+    writeFileSync(opts.out, all.map((it) => JSON.stringify(it)).join("\n") + (all.length ? "\n" : ""));
+    log.info(`[replay] wrote ${all.length} items → ${opts.out}`);
+  } else {
+    for (const it of all) print(JSON.stringify(it));
+  }
+  return results;
+}
@@ -1,37 +1,29 @@
 // src/engine.teach.ts
-import { chromium, Page } from "playwright";
+import type { Page } from "playwright";
 import {
   loadLearnedSelectors,
   getBestProfile,
   upsertProfile,
 } from "./learn/learn.js";
+import { classifyPage } from "./detect/router.js";
 import { extractTeachItems } from "./extract/extract.teach.js";
 import { writePageOnce, writeItems, getStats } from "./storage/storage.js";
+import { withEnvelope, newRunId } from "./storage/envelope.js";
+import { paginate } from "./steps/paginate.js";
+import { failureFromError, NavOutcome, EngineResult } from "./steps/outcome.js";
+import { exhaustListing, DEFAULT_CARD_SELECTORS } from "./steps/exhaust.js";
+import { parsePrice, withCompareAt, withFallbackLocale } from "./extract/price.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { withPooledPage, ContextPool } from "./browser/pool.js";
+import { assertRobotsAllowed, paceHost, politeGate } from "./browser/polite.js";
+import { formatBlockStats, BlockStats } from "./browser/blocking.js";
 import {
   enableTeachMode,
   waitForTeachOverlay,
   waitForTeachSaveResilient,
   squelchPageErrors,
 } from "./learn/manual.js";
-
-/* ================= logging ================= */
-
-const LOG_LEVEL = (process.env.FS_LOG_LEVEL || "info").toLowerCase();
-const ORDER: Record<string, number> = {
-  debug: 10,
-  info: 20,
-  warn: 30,
-  error: 40,
-};
-const canLog = (lvl: string) =>
-  (ORDER[lvl] ?? 20) >= (ORDER[LOG_LEVEL] ?? 20);
-
-const log = {
-  debug: (...a: any[]) => canLog("debug") && console.log("[debug]", ...a),
-  info: (...a: any[]) => canLog("info") && console.log("[info]", ...a),
-  warn: (...a: any[]) => canLog("warn") && console.warn("[warn]", ...a),
-  error: (...a: any[]) => canLog("error") && console.error("[error]", ...a),
-};
+import { log } from "./log.js";
 
 /* ================= small helpers ================= */
 
@@ -74,11 +66,19 @@ function stripBoilerplateDescription(desc?: string) {
 
 function coalescePrice(it: any) {
   const pick = (s?: string) => (s && /\d/.test(s) ? s : undefined);
-  it.price =
+  const price =
     pick(it.salePrice) ||
     pick(it.price) ||
     pick(it.compareAt) ||
     it.price;
+  if (price !== it.price) {
+    it.price = price;
+    it.priceInfo = price
+      ? parsePrice(String(price), { currency: it.priceInfo?.currency }) ?? undefined
+      : undefined;
+  }
+  // a taught compare-at field feeds the structured compareAt
+  if (it.priceInfo && it.compareAt) it.priceInfo = withCompareAt(it.priceInfo, String(it.compareAt));
   return it;
 }
 
@@ -195,80 +195,130 @@ async function safeGetContent(page: Page): Promise<string> {
     try {
       return await page.content();
     } catch {
-      console.warn("[teach] WARN: could not get page.content()");
+      log.warn("[teach] could not get page.content()");
       return "";
     }
   }
 }
 
-async function safeInitialGoto(page: Page, url: string): Promise<boolean> {
+async function safeInitialGoto(page: Page, url: string, config: FlowScrapeConfig): Promise<NavOutcome> {
   try {
+    await paceHost(url, config, log);
     await page.goto(url, {
       waitUntil: "domcontentloaded",
       timeout: 25000,
     });
-    return true;
+    return { ok: true };
   } catch (err: any) {
-    console.warn(
-      "[teach] WARN: initial goto failed:",
+    const f = failureFromError(err, url);
+    log.warn(
+      `[teach] initial goto failed (${f.kind}):`,
       url,
-      err?.message || ""
+      f.message
     );
-    return false;
+    return { ok: false, failure: f };
   }
 }
 
-async function ensureCollectionReady(page: Page) {
-  try {
-    await page.evaluate(async () => {
-      await new Promise<void>((resolve) => {
-        let last = 0;
-        let idle = 0;
-
-        const step = () => {
-          const sh = document.documentElement.scrollHeight;
-          window.scrollTo(0, sh);
-
-          setTimeout(() => {
-            const now = document.documentElement.scrollHeight;
-
-            if (now > last) {
-              last = now;
-              idle = 0;
-              step();
-            } else if (++idle < 4) {
-              step();
-            } else {
-              resolve();
-            }
-          }, 350);
-        };
-
-        step();
-      });
-    });
-  } catch {
-    // best-effort
-  }
+async function ensureCollectionReady(
+  page: Page,
+  config: FlowScrapeConfig,
+  listSelector?: string[]
+) {
+  const res = await exhaustListing(page, {
+    ...config.exhaust,
+    loadMoreWords: config.i18n.loadMoreWords,
+    listSelector: listSelector?.length ? listSelector : DEFAULT_CARD_SELECTORS,
+    log,
+  });
+  log.debug(
+    `[teach] exhaust: ${res.cards} cards, ${res.rounds} rounds, ${res.clicks} clicks (${res.stopReason})`
+  );
 
   await page.waitForTimeout(300);
 }
 
+/* ================= offline (shared with --replay) ================= */
+
+// taught profile → extractTeachItems input (fields may be stored as sel / abs / rel)
+function teachSelectorsFromProfile(learned: any) {
+  const fields: Record<string, { sel: string; attr?: string }> = {};
+  if (learned.fields) {
+    for (const [name, f] of Object.entries(learned.fields as any)) {
+      const anyF = f as any;
+      const sel: string | undefined =
+        anyF.sel || anyF.abs || anyF.rel;
+      if (!sel) continue;
+      fields[name] = {
+        sel,
+        attr: anyF.attr,
+      };
+    }
+  }
+
+  const buckets = {
+    list: toArray(learned.list),
+    anchors: unique(learned.anchors || []),
+    containers: unique(learned.containers || []),
+    broad: unique(learned.broad || []),
+    candidates: unique(learned.candidates || []),
+  };
+  return { fields, buckets };
+}
+
+/** Teach-engine extraction of a stored snapshot (no browser, nothing persisted). */
+export async function extractTeachFromHtml(html: string, url: string) {
+  const { profile, buckets: learned } = getBestProfile(new URL(url).host, url, html);
+  const { fields, buckets } = teachSelectorsFromProfile(learned);
+  let items: any[] = [];
+  try {
+    items = extractTeachItems(html, { buckets, fields, pageUrl: url });
+  } catch (e: any) {
+    log.warn("[teach] extractTeachItems threw:", e?.message || e);
+  }
+  const cls = await classifyPage(html, url);
+  return {
+    kind: typeof cls === "string" ? cls : cls.kind,
+    profileId: profile?.id,
+    items: postProcessItemsSmart(items, url),
+  };
+}
+
 /* ================= main (teach-only) ================= */
 
-export async function runTeach(
-  url: string,
-  opts: { headless?: boolean } = {}
-) {
-  loadLearnedSelectors();
+type TeachOpts = {
+  headless?: boolean;
+  blockHeavy?: boolean;
+  maxPages?: number;
+  config?: FlowScrapeConfig;
+  runId?: string;
+  pool?: ContextPool;
+};
 
-  const browser = await chromium.launch({
-    headless: opts.headless ?? true,
-  });
+export async function runTeach(url: string, opts: TeachOpts = {}): Promise<EngineResult> {
+  loadLearnedSelectors();
 
-  const context = await browser.newContext({ bypassCSP: true });
-  const page = await context.newPage();
+  const config = opts.config ?? loadConfig();
+  await assertRobotsAllowed(url, config, log);
+  // pages that declare no lang fall back to the configured locale for prices
+  return withFallbackLocale(config.locale, () =>
+    withPooledPage(
+      opts.pool,
+      config,
+      url,
+      { headless: opts.headless, blockHeavy: opts.blockHeavy, log },
+      ({ page, blocked }) => teachOnPage(url, page, blocked, config, opts)
+    )
+  );
+}
 
+async function teachOnPage(
+  url: string,
+  page: Page,
+  blocked: BlockStats | null,
+  config: FlowScrapeConfig,
+  opts: TeachOpts
+): Promise<EngineResult> {
   squelchPageErrors(page, log, { onlyTeachLogs: true });
 
   page.on("framenavigated", async (frame) => {
@@ -285,14 +335,13 @@ export async function runTeach(
   await enableTeachMode(page, url, log);
 
   log.info("[teach] launching:", url);
-  const ok = await safeInitialGoto(page, url);
-  if (ok) await page.waitForTimeout(200);
+  const nav = await safeInitialGoto(page, url, config);
+  if (nav.ok) await page.waitForTimeout(200);
 
   await waitForTeachOverlay(page, log);
   const payload = await waitForTeachSaveResilient(page, log, 10 * 60_000);
 
   if (!payload) {
-    await browser.close();
     throw new Error("[teach] No manual picks received before timeout");
   }
 
@@ -302,10 +351,13 @@ export async function runTeach(
     "[teach] pure mode → using ONLY learned selectors for this host (no global strict gating)"
   );
 
-  await ensureCollectionReady(page);
+  const host = new URL(url).host;
+
+  // count the taught cards while exhausting "load more" / infinite scroll
+  const taught = getBestProfile(host, url, await safeGetContent(page));
+  await ensureCollectionReady(page, config, toArray(taught.buckets.list));
   const finalHtml = await safeGetContent(page);
 
-  const host = new URL(url).host;
   const { profile, buckets: learned, score } = getBestProfile(
     host,
     url,
@@ -314,19 +366,7 @@ export async function runTeach(
 
   const learnedList = toArray(learned.list);
 
-  const fields: Record<string, { sel: string; attr?: string }> = {};
-  if (learned.fields) {
-    for (const [name, f] of Object.entries(learned.fields as any)) {
-      const anyF = f as any;
-      const sel: string | undefined =
-        anyF.sel || anyF.abs || anyF.rel;
-      if (!sel) continue;
-      fields[name] = {
-        sel,
-        attr: anyF.attr,
-      };
-    }
-  }
+  const { fields, buckets } = teachSelectorsFromProfile(learned);
 
   log.info(
     "[teach] learned profile:",
@@ -349,17 +389,9 @@ export async function runTeach(
     Object.keys(fields).join(", ") || "(none)"
   );
 
-  const buckets = {
-    list: learnedList,
-    anchors: unique(learned.anchors || []),
-    containers: unique(learned.containers || []),
-    broad: unique(learned.broad || []),
-    candidates: unique(learned.candidates || []),
-  };
-
   let items: any[] = [];
   try {
-    items = extractTeachItems(finalHtml, { buckets, fields });
+    items = extractTeachItems(finalHtml, { buckets, fields, pageUrl: page.url() || url });
   } catch (e: any) {
     log.warn("[teach] extractTeachItems threw:", e?.message || e);
     items = [];
@@ -367,12 +399,42 @@ export async function runTeach(
 
   log.info("[teach] extracted items (raw):", items.length);
 
+  let pages = 1;
   if (!items.length) {
     log.warn("[teach] 0 items — selectors from learned.json did not produce results");
+  } else {
+    const firstPage = items;
+    const paged = await paginate(
+      page,
+      finalHtml,
+      (html, pageNo, pageUrl) =>
+        pageNo === 1 ? firstPage : extractTeachItems(html, { buckets, fields, pageUrl }),
+      {
+        maxPages: opts.maxPages ?? config.maxPages,
+        settle: (p) => ensureCollectionReady(p, config, learnedList),
+        beforeGoto: (u) => politeGate(u, config, log),
+        onPage: (pageUrl, html) => writePageOnce(pageUrl, html),
+        log,
+      }
+    );
+    items = paged.items;
+    pages = paged.pages;
+    log.info(
+      `[teach] pages: ${paged.pages} (stop: ${paged.stopReason}) → items: ${items.length}`
+    );
   }
 
   // Smart post-process: dedupe + key + keep items even without original href
   items = postProcessItemsSmart(items, url);
+  const cls = await classifyPage(finalHtml, url);
+  const kind = typeof cls === "string" ? cls : cls.kind;
+  items = withEnvelope(items, {
+    sourceUrl: url,
+    runId: opts.runId ?? newRunId(),
+    engine: "teach",
+    kind,
+    profileId: profile?.id,
+  });
 
   const persistable = items;
   const withTitleHref = items.filter(hasTitleHref).length;
@@ -414,8 +476,18 @@ export async function runTeach(
 
   const stats = getStats();
   log.info(
-    `[teach] Summary → pages:${stats.pages} html:${stats.pagesHtml} items:${stats.items}`
+    `[teach] Summary → pages:${stats.pages} items:${stats.items} blocked:${blocked ? formatBlockStats(blocked) : "off"}`
   );
 
-  await browser.close();
+  return {
+    engine: "teach",
+    kind,
+    classification: cls,
+    items: persistable,
+    pages,
+    selectors: { list: learnedList, fields },
+    htmlBytes: finalHtml.length,
+    nav: nav.failure,
+    metrics: { coverage: items.length ? withTitleHref / items.length : 0 },
+  };
 }
@@ -1,57 +1,90 @@
 // src/engine.ts
-import { chromium, Page } from "playwright";
+import type { Page } from "playwright";
 import { classifyPage } from "./detect/router.js";
 import { autodetectFromHtml } from "./detect/autodetect.js";
 import { loadSelectorsForKind } from "./selectors/load.js";
+import { load } from "cheerio";
 import {
   loadLearnedSelectors,
   getLearnedForHost,
+  getLearnedProfileId,
   saveLearnedForHost,
+  getHostRecord,
+  getJsonMapping,
+  saveJsonMapping,
 } from "./learn/learn.js";
 import { extractItems } from "./extract/extract.js";
+import { mergeEmbeddedState } from "./extract/state.js";
+import { learnJsonMapping, itemsFromJson, JsonMapping, JsonResponse } from "./extract/json.js";
 import { writePageOnce, writeItems, getStats } from "./storage/storage.js";
+import { withEnvelope, newRunId } from "./storage/envelope.js";
+import { waitIdle, dismissModals } from "./steps/steps.js";
 import {
-  waitIdle,
-  maybeScroll,
-  dismissModals,
-  runStep,
-} from "./steps/steps.js";
-
-/* ============ logging ============ */
-const LOG_LEVEL = (process.env.FS_LOG_LEVEL || "info").toLowerCase();
-const ORDER: Record<string, number> = {
-  debug: 10,
-  info: 20,
-  warn: 30,
-  error: 40,
-};
-function canLog(level: string) {
-  return (ORDER[level] ?? 20) >= (ORDER[LOG_LEVEL] ?? 20);
-}
-const log = {
-  debug: (...a: any[]) => canLog("debug") && console.log("[debug]", ...a),
-  info: (...a: any[]) => canLog("info") && console.log("[info]", ...a),
-  warn: (...a: any[]) => canLog("warn") && console.log("[warn]", ...a),
-  error: (...a: any[]) => canLog("error") && console.log("[error]", ...a),
-};
-
-type RunOpts = {
+  loadFlow,
+  executeFlow,
+  recollect,
+  collectSpecsOf,
+  collectFromHtml,
+} from "./flows/flow.js";
+import { paginate } from "./steps/paginate.js";
+import { failureFromError, NavOutcome, EngineResult } from "./steps/outcome.js";
+import { exhaustListing } from "./steps/exhaust.js";
+import { withFallbackLocale, priceContextFromDoc } from "./extract/price.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { withPooledPage, ContextPool } from "./browser/pool.js";
+import { assertRobotsAllowed, paceHost, politeGate } from "./browser/polite.js";
+import { formatBlockStats, BlockStats } from "./browser/blocking.js";
+import { captureJson, watchRequests } from "./browser/capture.js";
+import { tryAdapters, emitAdapterItems } from "./adapters/adapters.js";
+import { isSearchRequest } from "./adapters/search.js";
+import { log } from "./log.js";
+
+export type RunOpts = {
   headless?: boolean;
   blockHeavy?: boolean;
+  maxPages?: number;
+  config?: FlowScrapeConfig;
+  runId?: string; // shared across a batch; one per run otherwise
+  pool?: ContextPool; // shared contexts (batch); a private one otherwise
 };
 
-export async function run(url: string, opts: RunOpts = {}) {
+export async function run(url: string, opts: RunOpts = {}): Promise<EngineResult> {
   // load disk cache first
   loadLearnedSelectors();
 
-  const browser = await chromium.launch({ headless: opts.headless ?? true });
-  const page = await browser.newPage();
+  const config = opts.config ?? loadConfig();
+  // disallowed URLs never get a page
+  await assertRobotsAllowed(url, config, log);
+  // pages that declare no lang fall back to the configured locale for prices
+  return withFallbackLocale(config.locale, () =>
+    withPooledPage(
+      opts.pool,
+      config,
+      url,
+      { headless: opts.headless, blockHeavy: opts.blockHeavy, log },
+      ({ page, blocked }) => scrapeOnPage(url, page, blocked, config, opts)
+    )
+  );
+}
 
+async function scrapeOnPage(
+  url: string,
+  page: Page,
+  blocked: BlockStats | null,
+  config: FlowScrapeConfig,
+  opts: RunOpts
+): Promise<EngineResult> {
   log.info("launching:", url);
 
+  // 0) record XHR / fetch JSON from the first request on (opt-in, or a mapping was learned)
+  const mapped = getHostRecord(new URL(url).host)?.profiles.some((p) => p.json);
+  const capture = config.capture.json || mapped ? captureJson(page, config, log) : null;
+  // search provider calls (Algolia, Searchspring…) the adapters can replay
+  const apiCalls = config.adapters.length ? watchRequests(page, isSearchRequest, log) : null;
+
   // 1) initial load (SAFE)
-  const initialOk = await safeInitialGoto(page, url);
-  if (initialOk) {
+  const nav = await safeInitialGoto(page, url, config);
+  if (nav.ok) {
     await waitIdle(page, 200);
   } else {
     log.warn(
@@ -63,38 +96,49 @@ export async function run(url: string, opts: RunOpts = {}) {
   const initialHtml = await safeGetContent(page);
   log.debug("initial HTML length:", initialHtml.length);
 
-  // 2) classify
-  const cls = await classifyPage(initialHtml, url);
-  const kind = typeof cls === "string" ? cls : cls.kind;
-  log.info("[FlowScrape] Classified as:", kind);
-
-  // 3–6
-  const flow = await loadFlow(kind);
-  const baseSel = loadSelectorsForKind(kind);
-  const host = new URL(url).host;
-
-  // ↓↓↓ get learned and normalize so extract can use {list, fields: {...}}
-  const learnedRaw = getLearnedForHost(host);
-  const learnedForHost = normalizeLearned(learnedRaw);
-
-  const auto = autodetectFromHtml(initialHtml, url);
-
-  // 7) selectors
-  const { listSelectors, fields } = buildSelectorConfig({
-    base: baseSel,
-    auto,
-    learned: learnedForHost, // ← pass normalized here too
-  });
+  // 2–7) classify → flow → selectors (same planning --replay uses)
+  const requests = apiCalls?.requests ?? [];
+  const plan = await planNormalExtraction(initialHtml, url, requests.map((r) => r.url));
+  const { cls, kind, flow, host, listSelectors, fields } = plan;
+  const learnedForHost = plan.learned;
+  log.info("[FlowScrape] Classified as:", kind + (cls.search ? ` (search: ${cls.search})` : ""));
+  if (config.debug.routing) log.info("[routing] classification:", cls);
+  log.debug("flow:", flow.path, `(${flow.steps.length} steps)`);
   // noisy → debug only
-  log.debug("listSelectors:", listSelectors);
+  (config.debug.routing ? log.info : log.debug)("listSelectors:", listSelectors);
   log.debug("ensuredFields:", JSON.stringify(fields, null, 2));
 
+  // 7.1) the platform's own JSON (Shopify products.json…) beats reading cards
+  const landed = page.url() || url;
+  const viaApi = await tryAdapters(kind, landed, {
+    config,
+    maxPages: opts.maxPages ?? config.maxPages,
+    html: initialHtml,
+    requests,
+  });
+  apiCalls?.stop();
+  if (viaApi) {
+    capture?.stop();
+    const res = await emitAdapterItems(url, initialHtml, viaApi, { engine: "normal", kind, runId: opts.runId });
+    return { ...res, classification: cls, nav: nav.failure };
+  }
+
   // 8) flow
   log.debug("running flow...");
-  await executeFlow(page, flow, { url });
+  const flowCtx = await executeFlow(page, flow, { url, log, config });
 
-  // 8.1) pause (allow lazy stuff to pop)
+  // 8.1) pause (allow lazy stuff to pop), then exhaust load-more / infinite scroll
   await page.waitForTimeout(2000);
+  const exhaustOpts = {
+    ...config.exhaust,
+    loadMoreWords: config.i18n.loadMoreWords,
+    listSelector: listSelectors,
+    log,
+  };
+  const exhausted = await exhaustListing(page, exhaustOpts);
+  log.debug(
+    `exhaust: ${exhausted.cards} cards, ${exhausted.rounds} rounds, ${exhausted.clicks} clicks (${exhausted.stopReason})`
+  );
 
   // 8.2) wait for best list selector (SMART + SAFE)
   if (listSelectors.length) {
@@ -161,17 +205,64 @@ export async function run(url: string, opts: RunOpts = {}) {
     );
   }
 
-  // 10) extract  ← HERE
-  const items = extractItems(finalHtml, listSelectors, fields, learnedForHost);
-  log.info("extracted items:", items.length);
+  // 10) extract  ← HERE (page 1 + pagination)
+  // pageUrl is where the browser ended up, so redirects resolve links correctly;
+  // __NEXT_DATA__ & co. complete the cards and add the ones never rendered
+  const extractPage = (html: string, pageNo: number, pageUrl: string) =>
+    mergeEmbeddedState(
+      mergeByHref(
+        extractItems(html, listSelectors, fields, learnedForHost, pageUrl),
+        pageNo === 1 ? flowCtx.items : recollect(html, flowCtx, pageUrl)
+      ),
+      html,
+      pageUrl
+    );
+
+  const paged = await paginate(page, finalHtml, extractPage, {
+    maxPages: opts.maxPages ?? flowCtx.paginate?.maxPages ?? config.maxPages,
+    nextSelector: flowCtx.paginate?.next,
+    settle: async (p) => {
+      await waitIdle(p, 200);
+      await dismissModals(p, config.i18n.closeWords).catch(() => {});
+      await exhaustListing(p, exhaustOpts);
+    },
+    beforeGoto: (u) => politeGate(u, config, log),
+    onPage: (pageUrl, html) => writePageOnce(pageUrl, html),
+    log,
+  });
+
+  // 10.1) the JSON the grid was rendered from beats its DOM
+  let viaJson: { items: any[]; mapping: JsonMapping } | null = null;
+  if (capture) {
+    await capture.settled();
+    capture.stop();
+    viaJson = itemsFromCapture(capture.responses, page.url() || url, finalHtml, paged.items.length, config, {
+      host,
+      url,
+      html: initialHtml,
+    });
+  }
+
+  const items = withEnvelope(viaJson?.items ?? paged.items, {
+    sourceUrl: url,
+    runId: opts.runId ?? newRunId(),
+    engine: "normal",
+    kind,
+    profileId: plan.profileId,
+  });
+  log.info(
+    "extracted items:",
+    items.length,
+    `(pages: ${paged.pages}, stop: ${paged.stopReason})`
+  );
 
   if (items.length) log.debug("first item sample:", items[0]);
 
   // 11) persist
   await writePageOnce(url, finalHtml);
-  if (items.length) {
-    await writeItems(items);
-
+  if (items.length) await writeItems(items);
+  // DOM selectors are only worth keeping when the DOM gave the items
+  if (items.length && !viaJson) {
     const okToPersist =
       fields && typeof fields === "object" && !Array.isArray(fields);
 
@@ -191,10 +282,126 @@ export async function run(url: string, opts: RunOpts = {}) {
 
   const stats = getStats();
   log.info(
-    `[FlowScrape] Summary → pages:${stats.pages} html:${stats.pagesHtml} items:${stats.items}  (storage/pages.jsonl, storage/pages.html.jsonl, storage/items.jsonl)`
+    `[FlowScrape] Summary → pages:${stats.pages} items:${stats.items} blocked:${blocked ? formatBlockStats(blocked) : "off"}${viaJson ? " via:xhr" : ""}`
+  );
+
+  return {
+    engine: "normal",
+    kind,
+    classification: cls,
+    items,
+    pages: paged.pages,
+    selectors: viaJson
+      ? { list: [viaJson.mapping.itemsPath], fields: viaJson.mapping.fields }
+      : { list: listSelectors, fields },
+    htmlBytes: finalHtml.length,
+    // a failed first load explains an empty run better than a failed flow goto
+    nav: nav.failure ?? flowCtx.failures[0],
+    ...(viaJson ? { adapter: "xhr" } : {}),
+  };
+}
+
+/* ============ captured JSON ============ */
+
+/**
+ * Items from captured responses: through the host's stored mapping, else
+ * (--capture-json) through a freshly learned one. Either is used only when
+ * it finds at least as many items as the DOM did.
+ */
+function itemsFromCapture(
+  responses: JsonResponse[],
+  pageUrl: string,
+  html: string,
+  domItems: number,
+  config: FlowScrapeConfig,
+  at: { host: string; url: string; html: string }
+): { items: any[]; mapping: JsonMapping } | null {
+  const ctx = priceContextFromDoc(load(html));
+  log.debug(`[capture] ${responses.length} JSON responses`);
+
+  const stored = getJsonMapping(at.host, at.url, at.html);
+  if (stored) {
+    const items = itemsFromJson(responses, stored, pageUrl, ctx);
+    if (items.length >= Math.max(2, domItems)) {
+      log.info(`[capture] ${items.length} items via stored mapping ${stored.urlPattern} → ${stored.itemsPath || "(root)"}`);
+      return { items, mapping: stored };
+    }
+    // the pattern may now only hit a widget response (recommendations, minicart…)
+    log.info(`[capture] stored mapping ${stored.urlPattern} gave ${items.length} items, DOM ${domItems} — ignoring it`);
+  }
+  if (!config.capture.json) return null;
+
+  const mapping = learnJsonMapping(responses);
+  if (!mapping) {
+    log.info("[capture] no product arrays in captured JSON");
+    return null;
+  }
+  const items = itemsFromJson(responses, mapping, pageUrl, ctx);
+  if (items.length < Math.max(2, domItems)) {
+    log.info(`[capture] ${mapping.urlPattern} gave ${items.length} items, DOM ${domItems} — keeping the DOM`);
+    return null;
+  }
+  saveJsonMapping(at.host, at.url, at.html, mapping);
+  log.info(
+    `[capture] learned ${mapping.urlPattern} → ${mapping.itemsPath || "(root)"} ` +
+      `(${Object.keys(mapping.fields).join(", ")}); ${items.length} items`
+  );
+  return { items, mapping };
+}
+
+/* ============ offline planning (shared with --replay) ============ */
+
+/**
+ * Everything the normal engine decides from HTML alone: page kind, flow,
+ * and the merged kind/autodetect/learned selectors.
+ */
+export async function planNormalExtraction(html: string, url: string, requests?: string[]) {
+  const cls = await classifyPage(html, url, { requests });
+  const kind = typeof cls === "string" ? cls : cls.kind;
+  const flow = loadFlow(kind);
+  const host = new URL(url).host;
+
+  // ↓↓↓ get learned and normalize so extract can use {list, fields: {...}}
+  const learned = normalizeLearned(getLearnedForHost(host));
+  const profileId = getLearnedProfileId(host);
+  const auto = autodetectFromHtml(html, url);
+
+  const { listSelectors, fields } = buildSelectorConfig({
+    base: loadSelectorsForKind(kind),
+    auto,
+    learned, // ← pass normalized here too
+  });
+  return { cls, kind, flow, host, learned, profileId, listSelectors, fields };
+}
+
+export type NormalPlan = Awaited<ReturnType<typeof planNormalExtraction>>;
+
+/** Normal-engine extraction of a stored snapshot (no browser, no flow clicks). */
+export async function extractNormalFromHtml(html: string, url: string) {
+  const plan = await planNormalExtraction(html, url);
+  return { kind: plan.kind, profileId: plan.profileId, items: extractWithPlan(html, url, plan) };
+}
+
+/** Items from one page's HTML under an existing plan (later pages of a --http run). */
+export function extractWithPlan(html: string, url: string, plan: NormalPlan) {
+  const collected = collectSpecsOf(plan.flow).flatMap((spec) => collectFromHtml(html, spec, url));
+  return mergeEmbeddedState(
+    mergeByHref(extractItems(html, plan.listSelectors, plan.fields, plan.learned, url), collected),
+    html,
+    url
   );
+}
 
-  await browser.close();
+// flow `collect` items fill gaps; engine extraction wins on duplicate hrefs
+function mergeByHref(primary: any[], extra: any[]) {
+  const seen = new Set(primary.map((it) => it.href).filter(Boolean));
+  const out = [...primary];
+  for (const it of extra) {
+    if (!it?.href || seen.has(it.href)) continue;
+    seen.add(it.href);
+    out.push(it);
+  }
+  return out;
 }
 
 // put this near the top of the file (outside run)
@@ -208,7 +415,6 @@ function normalizeLearned(raw: any) {
   };
 }
 
-
 /* ============ helpers ============ */
 
 async function safeGetContent(page: Page): Promise<string> {
@@ -223,8 +429,8 @@ async function safeGetContent(page: Page): Promise<string> {
     try {
       return await page.content();
     } catch {
-      console.warn(
-        "[FlowScrape] WARN: could not get page.content(), returning empty HTML."
+      log.warn(
+        "[FlowScrape] could not get page.content(), returning empty HTML."
       );
       return "";
     }
@@ -295,93 +501,23 @@ function buildSelectorConfig({
   return { listSelectors: deduped, fields };
 }
 
-async function loadFlow(kind: string) {
-  return {
-    steps: [{ maybeScroll: true }, { dismissModals: true }],
-  };
-}
-
-async function executeFlow(page: Page, flow: any, ctx: { url: string }) {
-  for (const step of flow.steps ?? []) {
-    if (step.goto) {
-      const target = step.goto.replace("{{ url }}", ctx.url);
-      const ok = await safeGotoStep(page, target);
-      if (!ok) {
-        console.warn("[FlowScrape] step.goto failed, skipping to next step");
-      } else {
-        await waitIdle(page, 200);
-      }
-      continue;
-    }
-
-    if (step.maybeScroll) {
-      try {
-        await maybeScroll(page);
-      } catch (err: any) {
-        console.warn("[FlowScrape] maybeScroll failed:", err.message);
-      }
-      continue;
-    }
-
-    if (step.dismissModals) {
-      try {
-        await dismissModals(page);
-      } catch (err: any) {
-        console.warn("[FlowScrape] dismissModals failed:", err.message);
-      }
-      continue;
-    }
-
-    if (typeof runStep === "function") {
-      try {
-        await runStep(page, step);
-      } catch (err: any) {
-        console.warn(
-          "[FlowScrape] runStep failed for",
-          JSON.stringify(step),
-          err.message
-        );
-      }
-    }
-  }
-}
-
-async function safeGotoStep(page: Page, target: string): Promise<boolean> {
-  try {
-    await page.goto(target, {
-      waitUntil: "domcontentloaded",
-      timeout: 25000,
-    });
-    return true;
-  } catch (err: any) {
-    const msg = err?.message || "";
-    if (/ERR_TOO_MANY_REDIRECTS/i.test(msg)) {
-      console.warn("[FlowScrape] WARN: too many redirects for", target);
-    } else if (err.name === "TimeoutError") {
-      console.warn("[FlowScrape] WARN: timeout while loading", target);
-    } else {
-      console.warn("[FlowScrape] WARN: goto failed for", target, msg);
-    }
-    return false;
-  }
-}
-
-async function safeInitialGoto(page: Page, url: string): Promise<boolean> {
+async function safeInitialGoto(page: Page, url: string, config: FlowScrapeConfig): Promise<NavOutcome> {
   try {
+    await paceHost(url, config, log);
     await page.goto(url, {
       waitUntil: "domcontentloaded",
       timeout: 25000,
     });
-    return true;
+    return { ok: true };
   } catch (err: any) {
-    const msg = err?.message || "";
-    if (err.name === "TimeoutError") {
-      console.warn("[FlowScrape] WARN: initial goto timeout:", url);
-    } else if (/ERR_TOO_MANY_REDIRECTS/i.test(msg)) {
-      console.warn("[FlowScrape] WARN: initial goto too many redirects:", url);
+    const f = failureFromError(err, url);
+    if (f.kind === "timeout") {
+      log.warn("[FlowScrape] initial goto timeout:", url);
+    } else if (f.kind === "too-many-redirects") {
+      log.warn("[FlowScrape] initial goto too many redirects:", url);
     } else {
-      console.warn("[FlowScrape] WARN: initial goto failed:", url, msg);
+      log.warn("[FlowScrape] initial goto failed:", url, f.message);
     }
-    return false;
+    return { ok: false, failure: f };
   }
 }
@@ -1,5 +1,7 @@
 // src/extract/extract.teach.ts
 import { load, Cheerio, CheerioAPI } from "cheerio";
+import { toPriceFields, priceContextFromDoc } from "./price.js";
+import { docBaseUrl, resolveItemUrls } from "./urls.js";
 
 /* ---------------- helpers (neutral) ---------------- */
 
@@ -25,36 +27,6 @@ function pickBestSrc(v?: string) {
   return v;
 }
 
-function normalizePriceText(txt: string): string | null {
-  if (!txt) return null;
-  // guard against URL/path-like garbage
-  if (/https?:\/\//i.test(txt) || /\/[A-Za-z0-9._-]/.test(txt)) return null;
-
-  const cleaned = txt.replace(/\s+/g, " ").trim();
-
-  // $9.99, CA$9.99, US$9.99
-  const m1 = cleaned.match(/(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/i);
-  if (m1) return m1[0].replace(/\s+/g, "");
-
-  // CAD 9.99, USD 9.99, CA 9.99
-  const m2 = cleaned.match(/(?:CAD|CA|USD)\s*\d[\d,]*(?:\.\d{2})?/i);
-  if (m2) return m2[0].replace(/\s+/g, "").replace(/^(CAD|CA|USD)/i, "$");
-
-  // "Now $9.99" / "From $9.99"
-  const m3 = cleaned.match(/(?:Now|From)\s*(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/i);
-  if (m3) return m3[0].replace(/^(Now|From)\s*/i, "").replace(/\s+/g, "");
-
-  // ranges: $9.99 - $19.99 → pick low end
-  const m4 = cleaned.match(
-    /(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?\s*[–-]\s*(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/
-  );
-  if (m4) {
-    const low = m4[0].match(/(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/);
-    if (low) return low[0].replace(/\s+/g, "");
-  }
-  return null;
-}
-
 function looksLikePathOrUrl(s?: string) {
   return !!s && (/^(https?:)?\/\//i.test(s) || /\/[A-Za-z0-9._-]/.test(s));
 }
@@ -204,10 +176,13 @@ export function extractTeachItems(
     fields: Record<string, FieldRule>; // learned.fields from learned.json (or {})
     listSelectors?: string[];          // optional fallback selectors
     cap?: number;                      // optional max items (default 150)
+    pageUrl?: string;                  // final URL of this page; relative URLs resolve against it (or <base href>)
   }
 ): any[] {
-  const { buckets, fields, listSelectors, cap = 150 } = args;
+  const { buckets, fields, listSelectors, cap = 150, pageUrl } = args;
   const $ = load(html);
+  const priceCtx = priceContextFromDoc($);
+  const base = docBaseUrl($, pageUrl);
 
   // Lists from learned buckets first; optional manual fallback
   const listNodes = getListNodes($, buckets);
@@ -259,12 +234,9 @@ export function extractTeachItems(
       if (descRaw) item.description = String(descRaw);
 
       const priceRaw = readField($, card, plans.price, "price");
-      if (priceRaw) {
-        const norm = normalizePriceText(String(priceRaw));
-        item.price = norm ?? String(priceRaw);
-      }
+      if (priceRaw) Object.assign(item, toPriceFields(String(priceRaw), priceCtx));
 
-      raw.push(item);
+      raw.push(resolveItemUrls(item, base));
     });
   }
 
@@ -6,6 +6,15 @@ import {
   resolveImage,
   resolveDescription,
 } from "./resolvers";
+import {
+  normalizePriceText,
+  toPriceFields,
+  priceInfoFromOffers,
+  withCompareAt,
+  priceContextFromDoc,
+  PriceContext,
+} from "./price";
+import { docBaseUrl, resolveItemUrls } from "./urls";
 
 /* ========================= constants ========================= */
 
@@ -255,44 +264,12 @@ function readField(
 
 /* ========================= price helpers ========================= */
 
-function normalizePriceText(txt: string): string | null {
-  if (!txt) return null;
-  // 🚫 ignore obvious URL/path-y stuff
-  if (/https?:\/\//i.test(txt) || /\/[A-Za-z0-9._-]/.test(txt)) return null;
-
-  const cleaned = txt.replace(/\s+/g, " ").trim();
-
-  // Common currency symbols/variants
-  const m1 = cleaned.match(/(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/i);
-  if (m1) return m1[0].replace(/\s+/g, "");
-
-  // 12.34 CAD / CAD 12.34 / USD 12.34
-  const m2 = cleaned.match(/(?:CAD|CA|USD)\s*\d[\d,]*(?:\.\d{2})?/i);
-  if (m2)
-    return m2[0]
-      .replace(/\s+/g, "")
-      .replace(/^(CAD|CA|USD)/i, "$");
-
-  // “Now $99.99”, “From $50”
-  const m3 = cleaned.match(/(?:Now|From)\s*(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/i);
-  if (m3)
-    return m3[0]
-      .replace(/^(Now|From)\s*/i, "")
-      .replace(/\s+/g, "");
-
-  // Ranges: $50 – $70 → pick lower
-  const m4 = cleaned.match(
-    /(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?\s*[–-]\s*(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/
-  );
-  if (m4) {
-    const low = m4[0].match(/(?:C?A?\$|US\$|\$)\s*\d[\d,]*(?:\.\d{2})?/);
-    if (low) return low[0].replace(/\s+/g, "");
-  }
+// strike-through / "was" nodes next to the live price
+const COMPARE_AT_SEL =
+  "s, del, strike, [class*='compare-at'], [class*='compare_at'], [class*='was-price'], [class*='original-price']";
 
-  return null;
-}
-
-function findDeepPrice($: CheerioAPI, root: Cheerio<any>): string | null {
+/** Text of the first node inside `root` that holds a parseable price. */
+function findDeepPrice($: CheerioAPI, root: Cheerio<any>, ctx: PriceContext): string | null {
   const DEBUG = process.env.FLOWSCRAPE_DEBUG === "1";
 
   // First, targeted Nike-ish selectors if present
@@ -303,10 +280,9 @@ function findDeepPrice($: CheerioAPI, root: Cheerio<any>): string | null {
     .first()
     .text()
     .trim();
-  const nikeNorm = normalizePriceText(nikePrice);
-  if (nikeNorm) {
+  if (normalizePriceText(nikePrice, ctx)) {
     if (DEBUG) console.log("[extract:debug] nike price hit:", nikePrice);
-    return nikeNorm;
+    return nikePrice;
   }
 
   // Price-ish generic scan
@@ -332,18 +308,16 @@ function findDeepPrice($: CheerioAPI, root: Cheerio<any>): string | null {
     if (scanned++ > MAX_SCAN) break;
     const $el = $(el);
     const txt = $el.text().trim();
-    const norm = normalizePriceText(txt);
-    if (norm) return norm;
+    if (normalizePriceText(txt, ctx)) return txt;
   }
 
   return null;
 }
 
-function readPrice($: CheerioAPI, card: Cheerio<any>, plan: FieldPlan) {
+function readPrice($: CheerioAPI, card: Cheerio<any>, plan: FieldPlan, ctx: PriceContext) {
   const raw = readField($, card, plan, "price");
-  if (!raw) return undefined;
-  const txt = String(raw);
-  return normalizePriceText(txt) ?? txt;
+  if (!raw) return {};
+  return toPriceFields(String(raw), ctx);
 }
 
 /* ========================= image helpers ========================= */
@@ -386,9 +360,12 @@ function collectProductsFromLd(node: any, out: any[]) {
 
 function extractFromJsonLd(
   html: string,
-  fields: Record<string, FieldRule>
+  fields: Record<string, FieldRule>,
+  pageUrl?: string
 ): any[] {
   const $ = load(html);
+  const priceCtx = priceContextFromDoc($);
+  const base = docBaseUrl($, pageUrl);
   const results: any[] = [];
 
   const scripts = $("script[type='application/ld+json']").toArray();
@@ -427,7 +404,9 @@ function extractFromJsonLd(
           (p as any).price;
         if (v != null) {
           const txt = String(v);
-          item.price = normalizePriceText(txt) ?? txt;
+          item.price = normalizePriceText(txt, priceCtx) ?? txt;
+          const info = priceInfoFromOffers((p as any).offers, (p as any).price, priceCtx);
+          if (info) item.priceInfo = info;
         }
         continue;
       }
@@ -450,7 +429,7 @@ function extractFromJsonLd(
       if (v != null) item[name] = v;
     }
 
-    if (Object.keys(item).length) results.push(item);
+    if (Object.keys(item).length) results.push(resolveItemUrls(item, base));
   }
 
   // light dedupe/normalize
@@ -473,13 +452,22 @@ function publicFieldCount(obj: Record<string, any>) {
 
 /* ========================= main extractor ========================= */
 
+/**
+ * Extract cards from `html`. `pageUrl` is the page's final URL (after
+ * redirects); with it, every URL-typed field comes back absolute.
+ */
 export function extractItems(
   html: string,
   listSelectors: string[],
   fields: Record<string, FieldRule>,
-  learned?: any
+  learned?: any,
+  pageUrl?: string
 ): any[] {
   const $ = load(html);
+  // <base href> wins over the page URL for relative links
+  const base = docBaseUrl($, pageUrl);
+  // lang / og:locale / priceCurrency decide separators and "$" vs "CA$"
+  const priceCtx = priceContextFromDoc($);
   const raw: any[] = [];
 
   const buckets = learned?.buckets || {};
@@ -504,7 +492,7 @@ export function extractItems(
 
   if (!lists.length) {
     // No lists detected — fall back to JSON-LD
-    return extractFromJsonLd(html, fields || {});
+    return extractFromJsonLd(html, fields || {}, pageUrl);
   }
 
   const learnedFields = (buckets && buckets.fields) || {};
@@ -538,8 +526,7 @@ export function extractItems(
       const descRaw = readField($, card, plans.description, "description");
       if (descRaw) item.description = String(descRaw);
 
-      const p = readPrice($, card, plans.price);
-      if (p) item.price = p;
+      Object.assign(item, readPrice($, card, plans.price, priceCtx));
 
       // --- ANCHOR-AWARE FALLBACKS ---
       const isAnchor = card.is("a[href]");
@@ -576,8 +563,8 @@ export function extractItems(
       // price (shallow)
       if (!item.price) {
         const shallowPrice = card.find("[class*='price'], [data-price], [data-testid*='price']").first().text().trim();
-        const norm = normalizePriceText(shallowPrice);
-        if (norm) item.price = norm;
+        const pf = toPriceFields(shallowPrice, priceCtx);
+        if (pf.priceInfo) Object.assign(item, pf);
       }
 
       // --- SANITIZERS FOR MISASSIGNED FIELDS ---
@@ -594,6 +581,7 @@ export function extractItems(
       // quick field cleanup before resolvers
       if (item.price && isUrlish(item.price)) {
         item.price = undefined; // invalid, retry in resolver
+        item.priceInfo = undefined;
       }
 
       if (!item.image) {
@@ -623,13 +611,23 @@ export function extractItems(
         if (ri?.value) item.image = pickBestSrc(String(ri.value));
       }
       if (!item.price) {
-        const deep = findDeepPrice($, card);
-        if (deep) item.price = deep;
+        const deep = findDeepPrice($, card, priceCtx);
+        if (deep) Object.assign(item, toPriceFields(deep, priceCtx));
         else {
-          const rp = resolvePrice($, card, { learned, fields, $doc: $ });
-          if (rp?.value) item.price = rp.value;
+          const rp = resolvePrice($, card, { learned, fields, $doc: $, price: priceCtx });
+          if (rp?.value) {
+            item.price = rp.value;
+            if (rp.info) item.priceInfo = rp.info;
+          }
         }
       }
+      if (item.priceInfo) {
+        item.priceInfo = withCompareAt(
+          item.priceInfo,
+          card.find(COMPARE_AT_SEL).first().text(),
+          priceCtx
+        );
+      }
       if (!item.description) {
         const rd = resolveDescription($, card, { learned, fields, $doc: $ });
         if (rd?.value) item.description = rd.value;
@@ -655,7 +653,7 @@ export function extractItems(
         debugPrinted = true;
       }
 
-      raw.push({ ...item, _node: card });
+      raw.push({ ...resolveItemUrls(item, base), _node: card });
     });
   }
 
@@ -676,6 +674,7 @@ export function extractItems(
     // if title equals price, price is probably wrong
     if (title && price && title === price) {
       r.price = undefined;
+      r.priceInfo = undefined;
     }
 
     let score = 0;
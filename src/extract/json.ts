@@ -0,0 +1,252 @@
+// src/extract/json.ts
+// Product arrays inside API responses (XHR / fetch JSON): find them, learn a
+// field mapping from JSON paths, and turn responses into items with it.
+import { toPriceFields, priceInfoFromOffers, PriceContext } from "./price.js";
+import { absUrl } from "./urls.js";
+
+/* ========================= types ========================= */
+
+/** Stored per host profile (learned.json `json`, next to `buckets`). */
+export type JsonMapping = {
+  urlPattern: string; // regex over response URLs (origin + path, query ignored)
+  itemsPath: string; // dot path to the product array ("" = the response itself)
+  fields: Record<string, string>; // item field → dot path inside one element
+  learnedAt: string;
+  items?: number; // found when learned
+};
+
+export type JsonResponse = { url: string; data: any };
+
+type Candidate = { itemsPath: string; arr: any[]; fields: Record<string, string>; score: number };
+
+// item field → key names that usually hold it (matched on the last path segment)
+const FIELD_KEYS: Record<string, RegExp> = {
+  title: /^(name|title|product_?name|product_?title|display_?name)$/i,
+  price: /^(price|final_?price|sale_?price|current_?price|price_?value|amount|min_?price)$/i,
+  href: /^(url|href|link|product_?url|product_?link|permalink|canonical_?url|pdp_?url|online_?store_?url|path)$/i,
+  image: /^(\w*_?images?|image_?url|img|img_?url|thumbnail|thumbnail_?image_?url|thumbnail_?url|picture|src)$/i,
+  compareAt: /^(msrp|list_?price|regular_?price|full_?price|compare_?at_?price|original_?price|was_?price|retail_?price)$/i,
+  currency: /^(currency|currency_?code|price_?currency)$/i,
+  brand: /^(brand|brand_?name|vendor|manufacturer)$/i,
+  sku: /^(sku|item_?number|style_?number)$/i,
+};
+
+const MIN_ITEMS = 2;
+const MAX_DEPTH = 6; // where product arrays may sit in a response (embedded page state goes deeper)
+const ELEMENT_DEPTH = 4; // how deep fields may sit inside one element (GraphQL edges[].node.…)
+
+/* ========================= paths ========================= */
+
+/** Value at a dot path ("data.products.edges", "images.0.src"); "" is the value itself. */
+export function getPath(v: any, path: string): any {
+  if (!path) return v;
+  let cur = v;
+  for (const k of path.split(".")) {
+    if (cur == null) return undefined;
+    cur = cur[k];
+  }
+  return cur;
+}
+
+const join = (a: string, b: string) => (a ? `${a}.${b}` : b);
+
+/* ========================= detection ========================= */
+
+const isObj = (x: any) => !!x && typeof x === "object" && !Array.isArray(x);
+const urlish = (s: any) => typeof s === "string" && /^(https?:)?\/\/|^\//.test(s.trim());
+const numeric = (v: any) =>
+  (typeof v === "number" && Number.isFinite(v)) || (typeof v === "string" && /\d/.test(v) && v.length < 40);
+
+// does this value look like it could be the field?
+function fits(field: string, v: any): boolean {
+  if (field === "title" || field === "brand" || field === "sku") {
+    return typeof v === "string" ? v.trim().length > 0 && v.length < 300 : field === "sku" && typeof v === "number";
+  }
+  if (field === "price" || field === "compareAt") return numeric(v);
+  if (field === "href") return urlish(v);
+  if (field === "image") return urlish(v) || /\.(jpe?g|png|webp|avif|gif)(\?|$)/i.test(String(v ?? ""));
+  if (field === "currency") return typeof v === "string" && /^[A-Z]{3}$/i.test(v.trim());
+  return false;
+}
+
+// every scalar leaf in one element, up to ELEMENT_DEPTH (first entry of arrays only)
+function leaves(el: any, prefix = "", depth = 0, out: [string, any][] = []): [string, any][] {
+  if (depth > ELEMENT_DEPTH) return out;
+  if (Array.isArray(el)) {
+    if (el.length) leaves(el[0], join(prefix, "0"), depth + 1, out);
+    return out;
+  }
+  if (!isObj(el)) {
+    out.push([prefix, el]);
+    return out;
+  }
+  for (const [k, v] of Object.entries(el)) leaves(v, join(prefix, k), depth + 1, out);
+  return out;
+}
+
+// name of the key that "owns" a leaf: "price.value" → price, "images.0.src" → images
+function ownerKeys(path: string): string[] {
+  return path.split(".").filter((k) => !/^\d+$/.test(k)).reverse();
+}
+
+/**
+ * Paths inside `arr`'s elements for each item field: the nearest key whose
+ * name fits, where the value fits in most of the sampled elements.
+ */
+function fieldPaths(arr: any[]): Record<string, string> {
+  const sample = arr.slice(0, 20);
+  const counts = new Map<string, number>();
+  for (const el of sample) {
+    for (const [path, v] of leaves(el)) {
+      for (const [field, re] of Object.entries(FIELD_KEYS)) {
+        const owners = ownerKeys(path);
+        // the leaf's own key, or its parent's when the leaf is a value / amount / …Url / …Src
+        const named = re.test(owners[0] || "") ||
+          (/^(value|amount|raw|formatted)$|(src|url|href)$/i.test(owners[0] || "") && re.test(owners[1] || ""));
+        if (!named || !fits(field, v)) continue;
+        const key = `${field}\u0000${path}`;
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  const out: Record<string, string> = {};
+  const best: Record<string, number> = {};
+  for (const [key, n] of counts) {
+    const [field, path] = key.split("\u0000");
+    if (n < Math.max(1, Math.ceil(sample.length * 0.6))) continue;
+    // more hits, then the shallower path
+    const score = n * 10 - path.split(".").length;
+    if (best[field] == null || score > best[field]) {
+      best[field] = score;
+      out[field] = path;
+    }
+  }
+  return out;
+}
+
+type WalkOpts = { maxDepth: number; fanout: number };
+
+function walk(v: any, path: string, depth: number, out: Candidate[], o: WalkOpts) {
+  if (depth > o.maxDepth || v == null || typeof v !== "object") return;
+  if (Array.isArray(v)) {
+    const objs = v.filter((x) => x && typeof x === "object");
+    if (objs.length >= MIN_ITEMS && objs.length >= v.length * 0.8) {
+      const fields = fieldPaths(objs);
+      const core = ["price", "href", "image"].filter((f) => fields[f]).length;
+      // products: a name plus at least two of price / url / image
+      if (fields.title && core >= 2) {
+        const score = objs.length * (Object.keys(fields).length + core);
+        out.push({ itemsPath: path, arr: objs, fields, score });
+      }
+    }
+    // nested arrays (variants inside products…) only when this isn't one
+    if (!out.some((c) => c.itemsPath === path)) {
+      v.slice(0, o.fanout).forEach((x, i) => walk(x, join(path, String(i)), depth + 1, out, o));
+    }
+    return;
+  }
+  for (const [k, x] of Object.entries(v)) walk(x, join(path, k), depth + 1, out, o);
+}
+
+/** Arrays of product-like objects in a response, best first. */
+export function findProductArrays(data: any, opts: Partial<WalkOpts> = {}): Candidate[] {
+  const out: Candidate[] = [];
+  walk(data, "", 0, out, { maxDepth: MAX_DEPTH, fanout: 3, ...opts });
+  return out.sort((a, b) => b.score - a.score);
+}
+
+// ".../api/search/search.json?q=…" → "^https://x\.a\.searchspring\.io/api/search/search\.json"
+function urlPatternOf(url: string): string {
+  try {
+    const u = new URL(url);
+    return "^" + (u.origin + u.pathname).replace(/[.*+?^${}()|[\]\\]/g, "\\$&") + "(?:[?#]|$)";
+  } catch {
+    return "^" + url.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
+
+/**
+ * Learn a mapping from captured responses: the response / array with the
+ * most product-like elements wins. Null when nothing looks like products.
+ */
+export function learnJsonMapping(responses: JsonResponse[]): JsonMapping | null {
+  let best: (Candidate & { url: string }) | null = null;
+  for (const r of responses) {
+    const [top] = findProductArrays(r.data);
+    if (top && (!best || top.score > best.score)) best = { ...top, url: r.url };
+  }
+  if (!best) return null;
+  return {
+    urlPattern: urlPatternOf(best.url),
+    itemsPath: best.itemsPath,
+    fields: best.fields,
+    learnedAt: new Date().toISOString(),
+    items: best.arr.length,
+  };
+}
+
+/* ========================= items ========================= */
+
+function str(v: any): string | undefined {
+  if (v == null || v === "") return undefined;
+  return String(v).replace(/\s+/g, " ").trim() || undefined;
+}
+
+function priceOf(el: any, m: JsonMapping, ctx: PriceContext) {
+  const raw = m.fields.price ? getPath(el, m.fields.price) : null;
+  if (raw == null || raw === "") return {};
+  const own = m.fields.currency ? str(getPath(el, m.fields.currency)) : undefined;
+  const currency = own?.toUpperCase() ?? ctx.currency ?? null;
+  // bare amounts (19.99, "19.99") are offers; anything with a symbol or words goes through the text parser
+  const fields =
+    typeof raw === "number" || /^\s*\d+(\.\d+)?\s*$/.test(String(raw))
+      ? { price: String(raw).trim(), priceInfo: priceInfoFromOffers({ price: raw, priceCurrency: currency }, undefined, ctx) }
+      : toPriceFields(String(raw), { ...ctx, currency });
+
+  const was = m.fields.compareAt ? Number(String(getPath(el, m.fields.compareAt) ?? "").replace(/[^\d.]/g, "")) : NaN;
+  const info = fields.priceInfo;
+  if (info && info.amount != null && Number.isFinite(was) && was > info.amount) {
+    return { ...fields, priceInfo: { ...info, compareAt: was } };
+  }
+  return info ? fields : { price: fields.price };
+}
+
+/** Items from every response the mapping applies to, deduped by href, in response order. */
+export function itemsFromJson(responses: JsonResponse[], m: JsonMapping, baseUrl: string, ctx: PriceContext = {}) {
+  const re = new RegExp(m.urlPattern);
+  const seen = new Set<string>();
+  const out: any[] = [];
+  let page = 0;
+
+  for (const r of responses) {
+    if (!re.test(r.url)) continue;
+    const arr = getPath(r.data, m.itemsPath);
+    if (!Array.isArray(arr) || !arr.length) continue;
+    page++;
+    for (const el of arr) {
+      const title = str(getPath(el, m.fields.title));
+      const href = m.fields.href ? absUrl(str(getPath(el, m.fields.href)), baseUrl) : undefined;
+      const image = m.fields.image ? absUrl(str(getPath(el, m.fields.image)), baseUrl) : undefined;
+      if (!title && !href) continue;
+
+      const key = href || `${title}¦${image ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const item: Record<string, any> = { title, href, image, ...priceOf(el, m, ctx), page };
+      if (m.fields.brand) item.brand = str(getPath(el, m.fields.brand));
+      if (m.fields.sku) item.sku = str(getPath(el, m.fields.sku));
+      out.push(item);
+    }
+  }
+  return out;
+}
+
+/** Items from one array of product-like objects (search hits), fields guessed as learnJsonMapping does. */
+export function itemsFromArray(arr: any[], baseUrl: string, ctx: PriceContext = {}) {
+  const top = findProductArrays(arr).find((c) => c.itemsPath === "");
+  if (!top) return [];
+  const m: JsonMapping = { urlPattern: "", itemsPath: "", fields: top.fields, learnedAt: "" };
+  return itemsFromJson([{ url: "", data: arr }], m, baseUrl, ctx);
+}
@@ -0,0 +1,395 @@
+// src/extract/price.ts
+// One price parser for every extractor (extract.ts, resolvers.ts, extract.teach.ts).
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { CheerioAPI } from "cheerio";
+
+/* ========================= types ========================= */
+
+export type PriceInfo = {
+  amount: number | null; // what the shopper pays now (sale price when on sale)
+  currency: string | null; // ISO 4217; null when only "$" and nothing else tells us which
+  text: string; // source text, whitespace-collapsed
+  compareAt?: number; // regular / "was" price when on sale
+  min?: number; // ranges ("$50 – $70") and "From $50"
+  max?: number;
+};
+
+/**
+ * What we know about the page before reading any price: its locale
+ * (html lang / og:locale / configured) and its declared currency
+ * (JSON-LD priceCurrency, product meta tags).
+ */
+export type PriceContext = {
+  locale?: string; // BCP-47, e.g. "fr-CA"
+  currency?: string | null; // ISO 4217
+};
+
+type MoneyToken = {
+  raw: string; // as it appeared, e.g. "CA$ 12.34", "12,99 €"
+  amount: number;
+  currency: string | null;
+  start: number;
+  end: number;
+};
+
+/* ========================= currency tables ========================= */
+
+// longest first so "CA$" wins over "$"
+const SYMBOLS: [string, string | null][] = [
+  ["CA$", "CAD"],
+  ["C$", "CAD"],
+  ["US$", "USD"],
+  ["AU$", "AUD"],
+  ["A$", "AUD"],
+  ["NZ$", "NZD"],
+  ["MX$", "MXN"],
+  ["HK$", "HKD"],
+  ["S$", "SGD"],
+  ["R$", "BRL"],
+  ["$", null], // ambiguous on its own
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["Rs.", "INR"],
+  ["Rs", "INR"],
+  ["₩", "KRW"],
+  ["₽", "RUB"],
+  ["₺", "TRY"],
+  ["zł", "PLN"],
+  ["Kč", "CZK"],
+  ["Ft", "HUF"],
+  ["kr.", null], // SEK / NOK / DKK / ISK — region decides
+  ["kr", null],
+];
+
+const CODES = [
+  "CAD", "USD", "EUR", "GBP", "AUD", "NZD", "MXN", "JPY", "CHF", "SEK", "NOK", "DKK",
+  "PLN", "CZK", "HUF", "BRL", "INR", "CNY", "HKD", "SGD", "KRW", "ZAR", "TRY", "RUB",
+];
+
+const esc = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// letter-ish symbols ("kr", "Ft", codes) must not run into a word
+const wordSafe = (s: string) => (/[A-Za-z.]$/.test(s) ? `${esc(s)}(?![A-Za-z])` : esc(s));
+const CUR_SRC = [...CODES, ...SYMBOLS.map(([s]) => s)].map(wordSafe).join("|");
+
+// 1,234.56 · 1.234,56 · 1 234,56 (nbsp / narrow nbsp) · 1'234.50 · 1,23,456 (Indian lakh grouping)
+// · 49 · 12,99 · 45.– (Swiss "no cents")
+const DEC_SRC = "(?:[.,](?:\\d{1,2}|[–—-]{1,2}))?";
+const numSrc = (groups: string) =>
+  `\\d{1,2}(?:,\\d{2})+,\\d{3}${DEC_SRC}|\\d{1,3}(?:[${groups}]\\d{3})+${DEC_SRC}|\\d+${DEC_SRC}`;
+const NUM_SRC = numSrc(".,'\\u00a0\\u202f");
+
+// a symbol followed by digits prefixes the next number ("Size 10 $20" is $20)
+const moneyRe = (num: string) =>
+  new RegExp(`(?:(?<![A-Za-z])(${CUR_SRC})\\s?(${num})|(${num})\\s?(${CUR_SRC})(?!\\s?\\d))`, "g");
+
+const MONEY_RE = moneyRe(NUM_SRC);
+// locales that group with a space ("1 234,56 €") also get plain spaces as grouping
+const MONEY_RE_SPACED = moneyRe(numSrc(".,' \\u00a0\\u202f"));
+
+/* ========================= label words ========================= */
+
+const COMPARE_LABEL = /(was|regular(?:\s+price)?|reg\.?|compare(?:\s+at)?(?:\s+price)?|original(?:ly)?(?:\s+price)?|before|msrp|list\s+price|retail|antes|avant|statt|prix\s+normal|precio\s+regular)\s*:?\s*$/i;
+const SALE_LABEL = /(now|sale(?:\s+price)?|special(?:\s+price)?|our\s+price|ahora|maintenant|jetzt|oferta|promo)\s*:?\s*$/i;
+const FROM_LABEL = /(from|starting\s+at|as\s+low\s+as|desde|à\s+partir\s+de|ab)\s*:?\s*$/i;
+const RANGE_GAP = /^\s*(?:–|—|-|to|a|à|bis)\s*$/i;
+const KEYWORD_NUM = new RegExp(
+  `\\b(?:price|from|now|as\\s+low\\s+as|our\\s+price|precio|prix|preis)\\b[^0-9]{0,12}(${NUM_SRC})`,
+  "i"
+);
+
+/* ========================= locale → currency ========================= */
+
+const EURO_REGIONS = "AT BE CY DE EE ES FI FR GR HR IE IT LT LU LV MT NL PT SI SK".split(" ");
+
+const REGION_CURRENCY: Record<string, string> = {
+  US: "USD", CA: "CAD", AU: "AUD", NZ: "NZD", MX: "MXN", GB: "GBP", CH: "CHF",
+  SE: "SEK", NO: "NOK", DK: "DKK", IS: "ISK", PL: "PLN", CZ: "CZK", HU: "HUF",
+  JP: "JPY", CN: "CNY", HK: "HKD", SG: "SGD", IN: "INR", BR: "BRL", ZA: "ZAR",
+  KR: "KRW", TR: "TRY",
+  ...Object.fromEntries(EURO_REGIONS.map((r) => [r, "EUR"])),
+};
+
+// symbols shared by several currencies: which ISO codes they may stand for
+const AMBIGUOUS: Record<string, string[]> = {
+  $: ["USD", "CAD", "AUD", "NZD", "MXN", "HKD", "SGD"],
+  kr: ["SEK", "NOK", "DKK", "ISK"],
+  "kr.": ["SEK", "NOK", "DKK", "ISK"],
+  "¥": ["JPY", "CNY"],
+};
+
+function regionOf(locale?: string): string | undefined {
+  const m = String(locale || "").match(/^[a-z]{2,3}[-_]([a-z]{2})\b/i);
+  return m ? m[1].toUpperCase() : undefined;
+}
+
+/** Locale's decimal / grouping characters (Intl), e.g. fr-CA → "," and narrow nbsp. */
+export function separatorsFor(locale?: string): { decimal: string; group: string } | null {
+  if (!locale) return null;
+  try {
+    const parts = new Intl.NumberFormat(locale.replace("_", "-")).formatToParts(1234567.5);
+    return {
+      decimal: parts.find((p) => p.type === "decimal")?.value ?? ".",
+      group: parts.find((p) => p.type === "group")?.value ?? ",",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/* ========================= page context ========================= */
+
+// per async call chain, so concurrent scrape() calls keep their own config.locale
+const localeScope = new AsyncLocalStorage<string | undefined>();
+
+/** Run `fn` with `locale` (config.locale) as the fallback for pages that declare none. */
+export function withFallbackLocale<T>(locale: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return localeScope.run(locale || undefined, fn);
+}
+
+function ldCurrency(node: any, depth = 0): string | null {
+  if (!node || typeof node !== "object" || depth > 6) return null;
+  if (typeof node.priceCurrency === "string" && node.priceCurrency) return node.priceCurrency;
+  for (const v of Array.isArray(node) ? node : Object.values(node)) {
+    const c = ldCurrency(v, depth + 1);
+    if (c) return c;
+  }
+  return null;
+}
+
+/**
+ * Page-level price hints: <html lang> / og:locale (the one with a region
+ * wins), then the configured locale when the page declares neither; the
+ * currency from JSON-LD priceCurrency or product price meta tags.
+ */
+export function priceContextFromDoc($: CheerioAPI): PriceContext {
+  const lang = ($("html").attr("lang") || "").trim();
+  const og = ($("meta[property='og:locale']").attr("content") || "").trim().replace("_", "-");
+  const locale =
+    [lang, og].find((l) => regionOf(l)) || lang || og || localeScope.getStore() || undefined;
+
+  let currency: string | null = null;
+  for (const s of $("script[type='application/ld+json']").toArray()) {
+    try {
+      currency = ldCurrency(JSON.parse($(s).contents().text()));
+    } catch {
+      // ignore malformed json-ld
+    }
+    if (currency) break;
+  }
+  currency ||=
+    $("meta[itemprop='priceCurrency']").attr("content") ||
+    $("[itemprop='priceCurrency']").first().attr("content") ||
+    $("meta[property='product:price:currency']").attr("content") ||
+    $("meta[property='og:price:currency']").attr("content") ||
+    null;
+
+  return { locale, currency: currency ? currency.trim().toUpperCase() : null };
+}
+
+/* ========================= helpers ========================= */
+
+/**
+ * Symbol → ISO code. Unambiguous symbols/codes win; "$", "kr" and "¥"
+ * take the page currency, then the locale region, when those fit.
+ */
+function currencyOf(tok: string | undefined, ctx: PriceContext): string | null {
+  const page = ctx.currency ? ctx.currency.toUpperCase() : null;
+  const region = REGION_CURRENCY[regionOf(ctx.locale) || ""] || null;
+  if (!tok) return page ?? region;
+
+  const t = tok.trim();
+  if (CODES.includes(t.toUpperCase())) return t.toUpperCase();
+  const options = AMBIGUOUS[t];
+  if (options) {
+    if (page && options.includes(page)) return page;
+    if (region && options.includes(region)) return region;
+    return t === "¥" ? "JPY" : null;
+  }
+  return SYMBOLS.find(([s]) => s === t)?.[1] ?? null;
+}
+
+/**
+ * "1.234,56" → 1234.56, "1,234" → 1234, "12,99" → 12.99, "1,23,456" → 123456.
+ * The last separator is decimal when 1–2 digits follow it and it occurs
+ * only once (a repeated one groups, as in Indian lakhs). A lone one
+ * before exactly 3 digits ("1,234") is the locale's call when there is
+ * one (de-DE: 1.234), else grouping.
+ */
+export function parseAmount(num: string, ctx: PriceContext = {}): number | null {
+  const s = num.replace(/[\s']/g, "").replace(/[.,][–—-]+$/, "");
+  let m = s.match(/^(.*?)([.,])(\d{1,2})$/);
+  if (m && m[1].includes(m[2])) m = null;
+  if (!m) {
+    const lone = s.match(/^(\d+)([.,])(\d{3})$/);
+    if (lone && separatorsFor(ctx.locale)?.decimal === lone[2]) m = lone;
+  }
+  const intPart = (m ? m[1] : s).replace(/[.,]/g, "");
+  const n = Number(m ? `${intPart}.${m[3]}` : intPart);
+  return Number.isFinite(n) && intPart !== "" ? n : null;
+}
+
+function scanMoney(text: string, ctx: PriceContext): MoneyToken[] {
+  const out: MoneyToken[] = [];
+  const spaced = /^\s$/.test(separatorsFor(ctx.locale)?.group ?? "");
+  for (const m of text.matchAll(spaced ? MONEY_RE_SPACED : MONEY_RE)) {
+    const cur = m[1] ?? m[4];
+    const amount = parseAmount(m[2] ?? m[3], ctx);
+    if (amount == null) continue;
+    out.push({
+      raw: m[0],
+      amount,
+      currency: currencyOf(cur, ctx),
+      start: m.index!,
+      end: m.index! + m[0].length,
+    });
+  }
+  return out;
+}
+
+function cleanText(txt: string) {
+  // keep nbsp: some locales use it as the thousands separator
+  return String(txt).replace(/[ \t\r\n]+/g, " ").trim();
+}
+
+function looksLikeUrl(txt: string) {
+  return /:\/\//.test(txt) || /^\s*\//.test(txt);
+}
+
+/* ========================= main ========================= */
+
+function analyze(
+  txt: string,
+  ctx: PriceContext = {}
+): { info: PriceInfo; token: string } | null {
+  if (!txt) return null;
+  const text = cleanText(txt);
+  if (!text || looksLikeUrl(text)) return null;
+
+  const tokens = scanMoney(text, ctx).slice(0, 6);
+
+  if (!tokens.length) {
+    // "Price 49.99", "from 12,99" — a number right after a price word
+    const k = text.match(KEYWORD_NUM);
+    const amount = k ? parseAmount(k[1], ctx) : null;
+    if (amount == null) return null;
+    return { info: { amount, currency: currencyOf(undefined, ctx), text }, token: k![1] };
+  }
+
+  const cur = (t: MoneyToken) => t.currency;
+  const before = (t: MoneyToken, prev?: MoneyToken) => text.slice(prev ? prev.end : 0, t.start);
+
+  const first = tokens[0];
+  const info: PriceInfo = { amount: first.amount, currency: cur(first), text };
+  let token = first;
+
+  // range: "$50 – $70" / "12 € à 20 €"
+  const second = tokens[1];
+  if (second && RANGE_GAP.test(before(second, first))) {
+    info.min = Math.min(first.amount, second.amount);
+    info.max = Math.max(first.amount, second.amount);
+    info.amount = info.min;
+    token = first.amount <= second.amount ? first : second;
+    return { info, token: token.raw };
+  }
+
+  // sale vs compare-at: labels win, otherwise two adjacent prices (strike-through + sale)
+  const sameCur = tokens.filter((t) => cur(t) === cur(first));
+  if (sameCur.length >= 2) {
+    const labelled = sameCur.map((t, i) => {
+      const gap = before(t, sameCur[i - 1]);
+      return { t, compare: COMPARE_LABEL.test(gap), sale: SALE_LABEL.test(gap) };
+    });
+    const cmp = labelled.find((x) => x.compare)?.t;
+    const sale = labelled.find((x) => x.sale)?.t ?? labelled.find((x) => !x.compare)?.t;
+
+    if (cmp && sale && cmp !== sale) {
+      token = sale;
+      info.amount = sale.amount;
+      if (cmp.amount > sale.amount) info.compareAt = cmp.amount;
+    } else if (before(second, first).trim().length <= 3) {
+      const lo = first.amount <= second.amount ? first : second;
+      const hi = lo === first ? second : first;
+      token = lo;
+      info.amount = lo.amount;
+      if (hi.amount > lo.amount) info.compareAt = hi.amount;
+    }
+  }
+
+  if (FROM_LABEL.test(before(token))) info.min = token.amount;
+  return { info, token: token.raw };
+}
+
+/**
+ * Structured price from free text. `ctx` (see priceContextFromDoc) settles
+ * ambiguous symbols ("$", "kr", "¥"), bare numbers, space grouping and a
+ * lone "1,234" / "1.234".
+ */
+export function parsePrice(
+  txt: string,
+  ctx: PriceContext = {}
+): PriceInfo | null {
+  return analyze(txt, ctx)?.info ?? null;
+}
+
+/**
+ * Compatibility string for `item.price`: the chosen money token exactly as
+ * written (currency kept — "CAD 12.34" stays "CAD 12.34").
+ */
+export function normalizePriceText(txt: string, ctx: PriceContext = {}): string | null {
+  return analyze(txt, ctx)?.token ?? null;
+}
+
+/**
+ * Both at once: `price` for the legacy string field, `priceInfo` for the
+ * structured one. Falls back to the raw text when nothing parses.
+ */
+export function toPriceFields(
+  txt: string,
+  ctx: PriceContext = {}
+): { price?: string; priceInfo?: PriceInfo } {
+  const a = analyze(txt, ctx);
+  if (!a) return txt ? { price: cleanText(txt) } : {};
+  return { price: a.token, priceInfo: a.info };
+}
+
+/** schema.org Offer / AggregateOffer (or an array of them) → PriceInfo. */
+export function priceInfoFromOffers(
+  offers: any,
+  fallback?: any,
+  ctx: PriceContext = {}
+): PriceInfo | null {
+  const o = Array.isArray(offers) ? offers[0] : offers;
+  const num = (v: any) => (v == null || v === "" ? null : parseAmount(String(v)));
+
+  const amount = num(o?.price ?? o?.lowPrice ?? fallback);
+  if (amount == null) return null;
+
+  const info: PriceInfo = {
+    amount,
+    currency: o?.priceCurrency
+      ? String(o.priceCurrency).toUpperCase()
+      : currencyOf(undefined, ctx),
+    text: String(o?.price ?? o?.lowPrice ?? fallback),
+  };
+  const lo = num(o?.lowPrice);
+  const hi = num(o?.highPrice);
+  if (lo != null) info.min = lo;
+  if (hi != null) info.max = hi;
+  return info;
+}
+
+/** A price found separately (strike-through node etc.) becomes compareAt when higher. */
+export function withCompareAt(
+  info: PriceInfo | undefined,
+  txt?: string,
+  ctx: PriceContext = {}
+): PriceInfo | undefined {
+  if (!info || info.amount == null || info.compareAt != null || !txt) return info;
+  const other = parsePrice(txt, { ...ctx, currency: info.currency ?? ctx.currency });
+  if (!other?.amount || other.amount <= info.amount) return info;
+  if (other.currency && info.currency && other.currency !== info.currency) return info;
+  return { ...info, compareAt: other.amount };
+}
@@ -1,10 +1,18 @@
 // src/extract/resolvers.ts
 import { CheerioAPI, Cheerio } from "cheerio";
+import {
+  normalizePriceText,
+  toPriceFields,
+  priceInfoFromOffers,
+  type PriceInfo,
+  type PriceContext,
+} from "./price.js";
 
 type ResolverCtx = {
   learned?: any;
   fields?: any;
   $doc?: CheerioAPI; // for page-level meta/ld
+  price?: PriceContext; // page locale / currency for price parsing
 };
 
 const DEBUG = process.env.FLOWSCRAPE_DEBUG === "1";
@@ -34,58 +42,13 @@ function attrOf(el: Cheerio<any>, names: string[]): string | null {
   return null;
 }
 
-/** A bit more forgiving; returns a normalized money string when possible. */
-function normalizePriceText(txt: string): string | null {
+function extractMoney(
+  txt: string,
+  ctx: PriceContext = {}
+): { value: string; info: PriceInfo } | null {
   if (!txt) return null;
-  const cleaned = txt.replace(/\s+/g, " ").trim();
-
-  // Common currency symbols / variants, incl. CA$, C$, US$, €, £
-  const m1 = cleaned.match(
-    /(?:C?A?\$|US\$|\$|€|£)\s*\d[\d,]*(?:[.,]\d{2})?/i
-  );
-  if (m1) return m1[0].replace(/\s+/g, "");
-
-  // Suffix currency codes: 12.34 CAD / CAD 12.34 / USD 12.34
-  const m2 = cleaned.match(
-    /(?:(?:CAD|CA|USD|EUR|GBP)\s*\d[\d,]*(?:[.,]\d{2})?|\d[\d,]*(?:[.,]\d{2})?\s*(?:CAD|CA|USD|EUR|GBP))/i
-  );
-  if (m2) {
-    // Normalize to leading symbol when possible; otherwise keep as-is
-    const s = m2[0].replace(/\s+/g, "");
-    // CAD123.45 or 123.45CAD → $123.45 (best effort)
-    const num = s.replace(/^(CAD|CA|USD|EUR|GBP)/i, "").replace(/(CAD|CA|USD|EUR|GBP)$/i, "");
-    if (/^\d/.test(num)) return "$" + num;
-    return s;
-  }
-
-  // “Now $99.99”, “From $50”, “As low as $12”
-  const m3 = cleaned.match(
-    /(?:Now|From|As\s+low\s+as)\s*(?:C?A?\$|US\$|\$|€|£)\s*\d[\d,]*(?:[.,]\d{2})?/i
-  );
-  if (m3) return m3[0].replace(/^(Now|From|As\s+low\s+as)\s*/i, "").replace(/\s+/g, "");
-
-  // Ranges: $50 – $70 → pick lower
-  const m4 = cleaned.match(
-    /(?:C?A?\$|US\$|\$|€|£)\s*\d[\d,]*(?:[.,]\d{2})?\s*[–-]\s*(?:C?A?\$|US\$|\$|€|£)\s*\d[\d,]*(?:[.,]\d{2})?/
-  );
-  if (m4) {
-    const low = m4[0].match(/(?:C?A?\$|US\$|\$|€|£)\s*\d[\d,]*(?:[.,]\d{2})?/);
-    if (low) return low[0].replace(/\s+/g, "");
-  }
-
-  // Plain number near price-y keywords (last resort): “Price 49.99”, “from 12,99”
-  const nearPrice = cleaned.match(
-    /\b(price|from|now|as\s+low\s+as|our\s+price)\b[^0-9]{0,12}(\d[\d,]*(?:[.,]\d{2})?)/i
-  );
-  if (nearPrice) return "$" + nearPrice[2].replace(/\s+/g, "");
-
-  return null;
-}
-
-function extractMoney(txt: string): string | null {
-  if (!txt) return null;
-  const norm = normalizePriceText(txt);
-  return norm || null;
+  const pf = toPriceFields(txt, ctx);
+  return pf.price && pf.priceInfo ? { value: pf.price, info: pf.priceInfo } : null;
 }
 
 function extractJsonLdProducts($: CheerioAPI): any[] {
@@ -140,7 +103,7 @@ export function resolvePrice(
   $: CheerioAPI,
   card: Cheerio<any>,
   ctx: ResolverCtx = {}
-): { value: string; score: number; source: string } | null {
+): { value: string; info?: PriceInfo; score: number; source: string } | null {
   // 0) PAGE-LEVEL STRUCTURED DATA
   if (ctx.$doc) {
     const products = extractJsonLdProducts(ctx.$doc);
@@ -152,9 +115,10 @@ export function resolvePrice(
         p?.price;
       if (price != null) {
         const val = String(price);
-        const norm = normalizePriceText(val) ?? val;
+        const norm = normalizePriceText(val, ctx.price) ?? val;
+        const info = priceInfoFromOffers(p?.offers, p?.price, ctx.price) ?? undefined;
         log("ldjson price", norm);
-        return { value: norm, score: 0.95, source: "ldjson" };
+        return { value: norm, info, score: 0.95, source: "ldjson" };
       }
     }
   }
@@ -180,10 +144,10 @@ export function resolvePrice(
     priceNode = card.parent().find(PRICE_SEL).filter((_, el) => !!textOf($, $(el))).first();
   }
   if (priceNode.length) {
-    const money = extractMoney(textOf($, priceNode));
+    const money = extractMoney(textOf($, priceNode), ctx.price);
     if (money) {
-      log("card/parent price", money);
-      return { value: money, score: 0.9, source: "card" };
+      log("card/parent price", money.value);
+      return { ...money, score: 0.9, source: "card" };
     }
   }
 
@@ -192,26 +156,26 @@ export function resolvePrice(
   for (const sel of learnedSelectors) {
     const n = card.find(sel).first();
     if (!n.length) continue;
-    const money = extractMoney(textOf($, n));
+    const money = extractMoney(textOf($, n), ctx.price);
     if (money) {
-      log("learned price", sel, money);
-      return { value: money, score: 0.78, source: "learned" };
+      log("learned price", sel, money.value);
+      return { ...money, score: 0.78, source: "learned" };
     }
   }
 
   // 3) FALLBACK: look for anchors with price-ish sibling text
   const linkNearby = card.find("a:has(.price), a:has([itemprop='price']), a:has(.money)").first();
   if (linkNearby.length) {
-    const money = extractMoney(textOf($, linkNearby));
-    if (money) return { value: money, score: 0.7, source: "link-near-price" };
+    const money = extractMoney(textOf($, linkNearby), ctx.price);
+    if (money) return { ...money, score: 0.7, source: "link-near-price" };
   }
 
   // 4) FINAL: regex over card text
   const rawTxt = textOf($, card);
-  const m = extractMoney(rawTxt);
+  const m = extractMoney(rawTxt, ctx.price);
   if (m) {
-    log("regex price", m);
-    return { value: m, score: 0.6, source: "regex" };
+    log("regex price", m.value);
+    return { ...m, score: 0.6, source: "regex" };
   }
 
   return null;
@@ -0,0 +1,243 @@
+// src/extract/state.ts
+// Product data SPAs ship inside the page: Next.js __NEXT_DATA__, Nuxt
+// __NUXT_DATA__ / window.__NUXT__, Apollo caches, Redux-style
+// window.__INITIAL_STATE__… Found arrays are merged into the DOM cards.
+import { load } from "cheerio";
+import { findProductArrays, itemsFromJson, JsonMapping } from "./json.js";
+import { priceContextFromDoc } from "./price.js";
+import { docBaseUrl } from "./urls.js";
+
+/* ========================= types ========================= */
+
+export type StateBlob = {
+  source: string; // __NEXT_DATA__, __NUXT_DATA__, __APOLLO_STATE__, <script id>…
+  data: any;
+};
+
+// cheap gate before parsing the document again
+const HINT_RE = /__NEXT_DATA__|__NUXT|__APOLLO_STATE__|__[A-Z_]*STATE__|__INITIAL_DATA__|application\/json/;
+
+// window.__X__ = {…} / = JSON.parse("…")
+const ASSIGN_RE = /(?:window|self|globalThis)\.(__NUXT__|__APOLLO_STATE__|__[A-Z_]*STATE__|__INITIAL_DATA__)\s*=\s*/g;
+
+const WALK = { maxDepth: 10, fanout: 50 }; // page state nests deeper than API responses
+const MAX_BLOB = 5_000_000;
+
+/* ========================= parsing ========================= */
+
+// the object / array / string literal starting at `from`, quotes and nesting respected
+function sliceLiteral(text: string, from: number): string | null {
+  const open = text[from];
+  if (open === '"' || open === "'") {
+    for (let i = from + 1; i < text.length; i++) {
+      if (text[i] === "\\") i++;
+      else if (text[i] === open) return text.slice(from, i + 1);
+    }
+    return null;
+  }
+  if (open !== "{" && open !== "[") return null;
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = from; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'" || c === "`") quote = c;
+    else if (c === "{" || c === "[") depth++;
+    else if (c === "}" || c === "]") {
+      if (--depth === 0) return text.slice(from, i + 1);
+    }
+  }
+  return null;
+}
+
+// JSON, or the JS-literal flavour serializers emit (undefined, !0 / !1)
+function parseLoose(txt: string): any {
+  try {
+    return JSON.parse(txt);
+  } catch {
+    try {
+      return JSON.parse(txt.replace(/:\s*undefined\b/g, ":null").replace(/:\s*!0\b/g, ":true").replace(/:\s*!1\b/g, ":false"));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// 'single-quoted' JS string literal → the same string "double-quoted" for JSON.parse
+function jsonQuoted(lit: string): string {
+  let out = '"';
+  for (let i = 1; i < lit.length - 1; i++) {
+    const c = lit[i];
+    if (c === "\\") {
+      const next = lit[++i];
+      out += next === "'" ? "'" : c + next;
+    } else out += c === '"' ? '\\"' : c;
+  }
+  return out + '"';
+}
+
+function parseAssigned(text: string, from: number): any {
+  const rest = text.slice(from, from + 12);
+  if (rest.startsWith("JSON.parse(")) {
+    const lit = sliceLiteral(text, from + 11);
+    if (!lit) return undefined;
+    const inner = parseLoose(lit[0] === "'" ? jsonQuoted(lit) : lit);
+    return typeof inner === "string" ? parseLoose(inner) : undefined;
+  }
+  // Nuxt 2's `(function(a,b){return {…}}(…))` needs a JS engine; not evaluated
+  const lit = sliceLiteral(text, from);
+  return lit ? parseLoose(lit) : undefined;
+}
+
+/**
+ * Nuxt 3 `__NUXT_DATA__` is devalue-flattened: one array, every value an
+ * index into it, ["Reactive", i]-style tags for wrapped values.
+ */
+export function unflattenDevalue(arr: any[]): any {
+  const memo = new Map<number, any>();
+  const hydrate = (i: any): any => {
+    if (typeof i !== "number" || i < 0 || i >= arr.length) return undefined;
+    if (memo.has(i)) return memo.get(i);
+    const v = arr[i];
+    if (v == null || typeof v !== "object") return v;
+    if (Array.isArray(v)) {
+      if (typeof v[0] === "string") {
+        if (/^(Shallow)?(Reactive|Ref)$/.test(v[0])) return hydrate(v[1]);
+        if (v[0] === "Date") return v[1];
+        return undefined; // Set / Map / RegExp / EmptyRef…
+      }
+      const out: any[] = [];
+      memo.set(i, out);
+      for (const x of v) out.push(hydrate(x));
+      return out;
+    }
+    const out: Record<string, any> = {};
+    memo.set(i, out);
+    for (const [k, x] of Object.entries(v)) out[k] = hydrate(x);
+    return out;
+  };
+  return hydrate(0);
+}
+
+/**
+ * Apollo's normalized cache keeps entities as { "Product:1": {…} } with
+ * { __ref } links; regroup them as { Product: [ … ] } so they form arrays.
+ */
+export function apolloEntities(cache: Record<string, any>): Record<string, any[]> | null {
+  const resolve = (v: any, depth: number): any => {
+    if (depth > 3 || v == null || typeof v !== "object") return v;
+    if (Array.isArray(v)) return v.map((x) => resolve(x, depth + 1));
+    if (typeof v.__ref === "string") return resolve(cache[v.__ref], depth + 1);
+    const out: Record<string, any> = {};
+    for (const [k, x] of Object.entries(v)) out[k] = resolve(x, depth + 1);
+    return out;
+  };
+
+  const byType: Record<string, any[]> = {};
+  for (const [key, v] of Object.entries(cache)) {
+    if (key === "ROOT_QUERY" || !v || typeof v !== "object" || !v.__typename) continue;
+    (byType[v.__typename] ||= []).push(resolve(v, 0));
+  }
+  return Object.keys(byType).length ? byType : null;
+}
+
+// normalized caches sit at the top of __APOLLO_STATE__, or in Next's pageProps
+function findApolloCaches(v: any, depth = 0, out: any[] = []): any[] {
+  if (depth > 4 || !v || typeof v !== "object" || Array.isArray(v)) return out;
+  if (v.ROOT_QUERY && typeof v.ROOT_QUERY === "object") {
+    out.push(v);
+    return out;
+  }
+  for (const x of Object.values(v)) findApolloCaches(x, depth + 1, out);
+  return out;
+}
+
+/** Every embedded state blob in the page that parses. */
+export function readEmbeddedState(html: string): StateBlob[] {
+  if (!HINT_RE.test(html)) return [];
+  const $ = load(html);
+  const blobs: StateBlob[] = [];
+  const push = (source: string, data: any) => {
+    if (data && typeof data === "object") blobs.push({ source, data });
+  };
+
+  $("script[type='application/json'], script#__NEXT_DATA__, script#__NUXT_DATA__").each((_, el) => {
+    const txt = $(el).contents().text();
+    if (!txt || txt.length > MAX_BLOB) return;
+    const id = $(el).attr("id") || "";
+    const data = parseLoose(txt);
+    if (id === "__NUXT_DATA__" && Array.isArray(data)) push(id, unflattenDevalue(data));
+    else push(id || "application/json", data);
+  });
+
+  $("script:not([src])").each((_, el) => {
+    const txt = $(el).contents().text();
+    if (!txt || txt.length > MAX_BLOB) return;
+    for (const m of txt.matchAll(ASSIGN_RE)) push(m[1], parseAssigned(txt, m.index! + m[0].length));
+  });
+
+  for (const b of [...blobs]) {
+    for (const cache of findApolloCaches(b.data)) push("__APOLLO_STATE__", apolloEntities(cache));
+  }
+  return blobs;
+}
+
+/* ========================= items ========================= */
+
+/**
+ * Items from the biggest product array across the page's state blobs:
+ * a name plus a price plus a URL or image (nav menus and banners don't
+ * carry prices).
+ */
+export function extractFromState(html: string, pageUrl?: string): any[] {
+  const blobs = readEmbeddedState(html);
+  if (!blobs.length) return [];
+
+  let best: { blob: StateBlob; itemsPath: string; fields: Record<string, string>; score: number } | null = null;
+  for (const blob of blobs) {
+    const top = findProductArrays(blob.data, WALK).find((c) => c.fields.price && (c.fields.href || c.fields.image));
+    if (top && (!best || top.score > best.score)) best = { blob, ...top };
+  }
+  if (!best) return [];
+
+  const $ = load(html);
+  const m: JsonMapping = { urlPattern: "", itemsPath: best.itemsPath, fields: best.fields, learnedAt: "" };
+  return itemsFromJson([{ url: "", data: best.blob.data }], m, docBaseUrl($, pageUrl) ?? pageUrl ?? "", priceContextFromDoc($))
+    .map(({ page, ...it }) => it);
+}
+
+const hrefKey = (h: string) => h.split(/[?#]/)[0].replace(/\/+$/, "").toLowerCase();
+const titleKey = (t: string) => t.replace(/\s+/g, " ").trim().toLowerCase();
+
+/**
+ * DOM cards completed from embedded state: a state item matching a card
+ * by URL (else title) fills the card's empty fields; the rest are cards
+ * the DOM never rendered (virtualized / lazy grids) and are appended.
+ */
+export function mergeEmbeddedState(items: any[], html: string, pageUrl?: string): any[] {
+  const found = extractFromState(html, pageUrl);
+  if (!found.length) return items;
+
+  const out = items.map((it) => ({ ...it }));
+  const byHref = new Map<string, any>();
+  const byTitle = new Map<string, any>();
+  for (const it of out) {
+    if (it.href) byHref.set(hrefKey(String(it.href)), it);
+    if (it.title) byTitle.set(titleKey(String(it.title)), it);
+  }
+
+  for (const s of found) {
+    const hit = (s.href && byHref.get(hrefKey(s.href))) || (s.title && byTitle.get(titleKey(s.title)));
+    if (!hit) {
+      out.push(s);
+      if (s.href) byHref.set(hrefKey(s.href), s);
+      continue;
+    }
+    for (const [k, v] of Object.entries(s)) {
+      if (v != null && v !== "" && (hit[k] == null || hit[k] === "")) hit[k] = v;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,85 @@
+// src/extract/urls.ts
+import type { CheerioAPI } from "cheerio";
+
+/* ========================= constants ========================= */
+
+// href, image, images, url, productUrl, imageUrl, thumbnail, swatchSrc, …
+const URL_FIELD_RE = /(^|[a-z_])(href|url|link|image|img|thumbnail|src|logo)s?$/i;
+const IMAGE_FIELD_RE = /(image|img|thumbnail|src|logo)s?$/i;
+
+// schemes we never rewrite
+const OPAQUE_RE = /^(data|javascript|mailto|tel|blob|about):/i;
+
+/* ========================= base ========================= */
+
+/**
+ * The URL relative links resolve against: `<base href>` (itself resolved
+ * against the page) when present, else the page URL. Pass the final URL
+ * after redirects, not the one that was requested.
+ */
+export function docBaseUrl($: CheerioAPI, pageUrl?: string): string | undefined {
+  const base = ($("base[href]").first().attr("href") || "").trim();
+  if (base) {
+    try {
+      return new URL(base, pageUrl).toString();
+    } catch {
+      // relative <base> on an unknown page: fall through
+    }
+  }
+  return pageUrl || undefined;
+}
+
+/* ========================= resolve ========================= */
+
+function isUrlish(s: string) {
+  if (/\s/.test(s)) return false;
+  return /^(https?:|\/\/|\/|\.\.?\/)/i.test(s) || /[/.]/.test(s);
+}
+
+/** "a.jpg 1x, b.jpg 2x" / "a.jpg 640w" → "a.jpg"; plain URLs pass through. */
+export function firstSrcsetUrl(v: string): string {
+  const first = v.split(/,\s+/)[0]?.trim() ?? "";
+  return first.split(/\s+/)[0] ?? "";
+}
+
+/** Absolute URL for `v`; protocol-relative and relative paths included. */
+export function absUrl(v: string | undefined | null, base?: string): string | undefined {
+  if (v == null) return undefined;
+  const s = String(v).trim();
+  if (!s || OPAQUE_RE.test(s) || s.startsWith("#")) return s || undefined;
+  try {
+    // no base: only protocol-relative can still be fixed
+    if (!base) return s.startsWith("//") ? `https:${s}` : s;
+    return new URL(s, base).toString();
+  } catch {
+    return s;
+  }
+}
+
+function resolveValue(v: string, base: string | undefined, image: boolean): string | undefined {
+  let s = v.trim();
+  if (image && /\s/.test(s)) s = firstSrcsetUrl(s);
+  if (image && s.startsWith("data:")) return undefined; // avoid massive data URIs
+  if (!isUrlish(s)) return v;
+  return absUrl(s, base);
+}
+
+/**
+ * Resolve every URL-typed field of an extracted item in place: href, image,
+ * images[], url, link, productUrl and other *Url / *Image style keys.
+ * srcset-like image values collapse to their first candidate.
+ */
+export function resolveItemUrls<T extends Record<string, any>>(item: T, base?: string): T {
+  for (const [k, v] of Object.entries(item)) {
+    if (k.startsWith("_") || !URL_FIELD_RE.test(k)) continue;
+    const image = IMAGE_FIELD_RE.test(k);
+    if (typeof v === "string") {
+      (item as any)[k] = resolveValue(v, base, image);
+    } else if (Array.isArray(v)) {
+      (item as any)[k] = v
+        .map((x) => (typeof x === "string" ? resolveValue(x, base, image) : x))
+        .filter((x) => x != null);
+    }
+  }
+  return item;
+}
@@ -0,0 +1,351 @@
+// src/fixtures/fixtures.ts
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { loadLearnedSelectors, useLearnedInMemory, getHostRecord } from "../learn/learn.js";
+import { readSnapshots } from "../engine.replay.js";
+import { extractNormalFromHtml } from "../engine.js";
+import { extractRawFromHtml } from "../engine.raw.js";
+import { log } from "../log.js";
+
+/* ============ types ============ */
+
+/** Per-field rule; a bare string is shorthand for `{ exact }`. */
+export type FieldRule = string | { exact?: string; regex?: string; present?: boolean };
+
+export type ExpectedItem = { href: string } & Record<string, FieldRule>;
+
+/**
+ * fixtures/<name>/fixture.yaml (+ page.html next to it).
+ * `complete: false` means `expected` is a sample: extra extracted items
+ * don't count against precision.
+ */
+export type Fixture = {
+  name: string;
+  dir: string;
+  url: string;
+  html: string;
+  capturedAt?: string;
+  complete: boolean;
+  learned?: Record<string, any>; // learned.json host record ({ profiles: [...] })
+  expected: ExpectedItem[];
+};
+
+export type Pipeline = "normal" | "raw";
+
+export type FieldScore = {
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null;
+  recall: number | null;
+};
+
+type FieldScores = Record<string, FieldScore>;
+
+export type FixtureReport = {
+  generatedAt: string;
+  pipelines: Record<
+    Pipeline,
+    { fields: FieldScores; fixtures: Record<string, FieldScores> }
+  >;
+};
+
+const FIXTURES_DIR = "fixtures";
+const BASELINE_PATH = join(FIXTURES_DIR, "baseline.json");
+const PIPELINES: Pipeline[] = ["normal", "raw"];
+const URL_FIELDS = new Set(["href", "image", "url"]);
+
+/* ============ helpers ============ */
+
+function absUrl(v: any, base: string) {
+  if (!v) return "";
+  try {
+    const u = new URL(String(v), base);
+    u.hash = "";
+    return u.toString().replace(/\/+$/, "");
+  } catch {
+    return String(v);
+  }
+}
+
+function fieldValue(name: string, v: any, base: string) {
+  if (v == null) return "";
+  if (URL_FIELDS.has(name)) return absUrl(v, base);
+  return String(v).replace(/\s+/g, " ").trim();
+}
+
+function checkRule(name: string, rule: FieldRule, value: any, base: string): boolean {
+  const got = fieldValue(name, value, base);
+  const r = typeof rule === "object" && rule ? rule : { exact: String(rule) };
+  if (r.present) return !!got;
+  if (r.regex != null) return new RegExp(r.regex).test(got);
+  if (r.exact != null) return got === fieldValue(name, r.exact, base);
+  return !!got;
+}
+
+function slugFor(url: string) {
+  const u = new URL(url);
+  const path = u.pathname.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "");
+  return `${u.host.replace(/^www\./, "")}${path ? "-" + path : ""}`.toLowerCase();
+}
+
+function ratio(n: number, d: number) {
+  return d ? Math.round((n / d) * 1000) / 1000 : null;
+}
+
+/* ============ load / capture ============ */
+
+export function loadFixtures(filter?: string): Fixture[] {
+  if (!existsSync(FIXTURES_DIR)) return [];
+  const out: Fixture[] = [];
+  for (const name of readdirSync(FIXTURES_DIR).sort()) {
+    if (filter && !name.includes(filter)) continue;
+    const dir = join(FIXTURES_DIR, name);
+    const spec = join(dir, "fixture.yaml");
+    if (!existsSync(spec)) continue;
+
+    const doc = parseYaml(readFileSync(spec, "utf8")) || {};
+    if (!doc.url) throw new Error(`[fixtures] ${spec}: missing url`);
+    if (!Array.isArray(doc.expected)) throw new Error(`[fixtures] ${spec}: expected must be a list`);
+    doc.expected.forEach((e: any, i: number) => {
+      if (!e?.href) throw new Error(`[fixtures] ${spec}: expected[${i}] has no href`);
+    });
+
+    out.push({
+      name,
+      dir,
+      url: String(doc.url),
+      html: readFileSync(join(dir, String(doc.html || "page.html")), "utf8"),
+      capturedAt: doc.capturedAt,
+      complete: doc.complete !== false,
+      learned: doc.learned || undefined,
+      expected: doc.expected,
+    });
+  }
+  return out;
+}
+
+/**
+ * Turn the latest stored snapshot of `url` into fixtures/<name>/.
+ * `expected` is pre-filled from today's normal extraction — review it
+ * (tighten rules, drop wrong items) before trusting the fixture.
+ */
+export async function captureFixture(
+  url: string,
+  opts: { name?: string; since?: number; until?: number; force?: boolean; dir?: string } = {}
+): Promise<string> {
+  const snaps = await readSnapshots({ url, since: opts.since, until: opts.until, dir: opts.dir });
+  const snap = snaps[snaps.length - 1];
+  if (!snap) throw new Error(`[fixtures] no stored snapshot for ${url}`);
+
+  const name = opts.name || slugFor(snap.url);
+  const dir = join(FIXTURES_DIR, name);
+  if (existsSync(join(dir, "fixture.yaml")) && !opts.force) {
+    throw new Error(`[fixtures] ${dir} already exists (use --force to overwrite)`);
+  }
+
+  loadLearnedSelectors();
+  const learned = getHostRecord(new URL(snap.url).host);
+  const { items } = await extractNormalFromHtml(snap.html, snap.url);
+
+  const expected = items
+    .filter((it) => it.href)
+    .map((it) => {
+      const e: Record<string, FieldRule> = { href: absUrl(it.href, snap.url) };
+      if (it.title) e.title = String(it.title).replace(/\s+/g, " ").trim();
+      if (it.price) e.price = { present: true };
+      if (it.image) e.image = { present: true };
+      return e;
+    });
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, "page.html"), snap.html);
+  writeFileSync(
+    join(dir, "fixture.yaml"),
+    stringifyYaml({
+      url: snap.url,
+      capturedAt: new Date(snap.ts).toISOString(),
+      complete: true,
+      ...(learned ? { learned } : {}),
+      expected,
+    })
+  );
+  log.info(`[fixtures] captured ${dir} (${expected.length} expected items — review before committing)`);
+  return dir;
+}
+
+/* ============ scoring ============ */
+
+function scoreFixture(fx: Fixture, items: any[]): FieldScores {
+  const scores: FieldScores = {};
+  const bump = (f: string, k: "tp" | "fp" | "fn") => {
+    scores[f] ??= { tp: 0, fp: 0, fn: 0, precision: null, recall: null };
+    scores[f][k] += 1;
+  };
+
+  const actual = new Map<string, any>();
+  for (const it of items) {
+    const k = absUrl(it.href, fx.url);
+    if (k && !actual.has(k)) actual.set(k, it);
+  }
+  const expected = new Map<string, ExpectedItem>();
+  for (const e of fx.expected) expected.set(absUrl(e.href, fx.url), e);
+
+  // recall side: every rule of every expected item
+  for (const [k, e] of expected) {
+    const got = actual.get(k);
+    bump("href", got ? "tp" : "fn");
+    for (const [f, rule] of Object.entries(e)) {
+      if (f === "href") continue;
+      bump(f, got && checkRule(f, rule, got[f], fx.url) ? "tp" : "fn");
+    }
+  }
+
+  // precision side: extracted values that are wrong or belong to no expected item
+  for (const [k, it] of actual) {
+    const e = expected.get(k);
+    if (!e) {
+      if (!fx.complete) continue;
+      bump("href", "fp");
+      for (const [f, v] of Object.entries(it)) {
+        if (f !== "href" && scores[f] && fieldValue(f, v, fx.url)) bump(f, "fp");
+      }
+      continue;
+    }
+    for (const [f, rule] of Object.entries(e)) {
+      if (f === "href") continue;
+      if (fieldValue(f, it[f], fx.url) && !checkRule(f, rule, it[f], fx.url)) bump(f, "fp");
+    }
+  }
+
+  return finish(scores);
+}
+
+function finish(scores: FieldScores): FieldScores {
+  for (const s of Object.values(scores)) {
+    s.precision = ratio(s.tp, s.tp + s.fp);
+    s.recall = ratio(s.tp, s.tp + s.fn);
+  }
+  return scores;
+}
+
+function sumScores(all: FieldScores[]): FieldScores {
+  const out: FieldScores = {};
+  for (const scores of all) {
+    for (const [f, s] of Object.entries(scores)) {
+      out[f] ??= { tp: 0, fp: 0, fn: 0, precision: null, recall: null };
+      out[f].tp += s.tp;
+      out[f].fp += s.fp;
+      out[f].fn += s.fn;
+    }
+  }
+  return finish(out);
+}
+
+/* ============ report ============ */
+
+function fmt(v: number | null, prev?: number | null) {
+  if (v == null) return "   -  ";
+  const base = v.toFixed(3);
+  if (prev == null || prev === v) return base;
+  const d = v - prev;
+  return `${base} (${d > 0 ? "+" : ""}${d.toFixed(3)})`;
+}
+
+function dropped(now?: FieldScore, prev?: FieldScore) {
+  if (!now || !prev) return false;
+  const lower = (a: number | null, b: number | null) => a != null && b != null && a < b;
+  return lower(now.precision, prev.precision) || lower(now.recall, prev.recall);
+}
+
+/**
+ * Run every fixture through the normal and raw pipelines and print
+ * per-field precision / recall next to the committed baseline
+ * (fixtures/baseline.json), which only `update` rewrites.
+ * Returns the number of (pipeline, field) pairs that got worse.
+ */
+export async function runFixtures(
+  opts: { filter?: string; update?: boolean } = {}
+): Promise<{ report: FixtureReport; regressions: number }> {
+  if (opts.update && opts.filter) {
+    throw new Error("[fixtures] --update rewrites the whole baseline; run it without a name filter");
+  }
+  const fixtures = loadFixtures(opts.filter);
+  if (!fixtures.length) {
+    throw new Error(`[fixtures] no fixtures found under ${FIXTURES_DIR}/ (capture one with --capture-fixture <url>)`);
+  }
+
+  const baseline: FixtureReport | null = existsSync(BASELINE_PATH)
+    ? JSON.parse(readFileSync(BASELINE_PATH, "utf8"))
+    : null;
+
+  const report: FixtureReport = {
+    generatedAt: new Date().toISOString(),
+    pipelines: {} as FixtureReport["pipelines"],
+  };
+
+  try {
+    for (const pipeline of PIPELINES) {
+      const perFixture: Record<string, FieldScores> = {};
+      for (const fx of fixtures) {
+        // each fixture sees only its own captured profile
+        useLearnedInMemory(fx.learned ? { [new URL(fx.url).host]: fx.learned } : {});
+        let items: any[] = [];
+        try {
+          const res =
+            pipeline === "raw"
+              ? await extractRawFromHtml(fx.html, fx.url)
+              : await extractNormalFromHtml(fx.html, fx.url);
+          items = res.items;
+        } catch (e: any) {
+          log.warn(`[fixtures] ${pipeline}/${fx.name} threw:`, e?.message || e);
+        }
+        perFixture[fx.name] = scoreFixture(fx, items);
+        log.debug(`[fixtures] ${pipeline}/${fx.name}: ${items.length} items`);
+      }
+      report.pipelines[pipeline] = {
+        fields: sumScores(Object.values(perFixture)),
+        fixtures: perFixture,
+      };
+    }
+  } finally {
+    loadLearnedSelectors();
+  }
+
+  let regressions = 0;
+  log.info(`[fixtures] ${fixtures.length} fixture(s)` + (baseline ? ` vs baseline of ${baseline.generatedAt}` : ", no baseline yet"));
+  for (const pipeline of PIPELINES) {
+    const now = report.pipelines[pipeline];
+    const before = baseline?.pipelines?.[pipeline];
+    // totals of the same fixtures (a name filter runs a subset; new fixtures have no baseline)
+    const beforeFields = sumScores(fixtures.map((fx) => before?.fixtures?.[fx.name]).filter((x): x is FieldScores => !!x));
+    log.info(`[fixtures] ${pipeline}:`);
+    for (const [f, s] of Object.entries(now.fields)) {
+      const p = beforeFields[f];
+      const worse = dropped(s, p);
+      if (worse) regressions++;
+      log.info(
+        `  ${worse ? "✗" : " "} ${f.padEnd(12)} P ${fmt(s.precision, p?.precision).padEnd(16)} R ${fmt(s.recall, p?.recall)}`
+      );
+    }
+    for (const [name, scores] of Object.entries(now.fixtures)) {
+      for (const [f, s] of Object.entries(scores)) {
+        const p = before?.fixtures?.[name]?.[f];
+        if (dropped(s, p)) {
+          log.info(
+            `    ↳ ${name} ${f}: P ${fmt(p!.precision)} → ${fmt(s.precision)}, R ${fmt(p!.recall)} → ${fmt(s.recall)}`
+          );
+        }
+      }
+    }
+  }
+
+  if (opts.update) {
+    writeFileSync(BASELINE_PATH, JSON.stringify(report, null, 2) + "\n");
+    log.info("[fixtures] baseline updated:", BASELINE_PATH);
+  } else if (regressions) {
+    log.info("[fixtures] intended? review, then accept the new scores with --fixtures --update");
+  }
+  return { report, regressions };
+}
@@ -0,0 +1,426 @@
+// src/flows/flow.ts
+import { existsSync, readFileSync } from "node:fs";
+import type { Page } from "playwright";
+import { parse as parseYaml } from "yaml";
+import { extractItems } from "../extract/extract.js";
+import { loadSelectorsForKind } from "../selectors/load.js";
+import { waitIdle, maybeScroll, dismissModals } from "../steps/steps.js";
+import { exhaustListing, countCards, DEFAULT_CARD_SELECTORS } from "../steps/exhaust.js";
+import { failureFromError, NavOutcome, Failure } from "../steps/outcome.js";
+import { politeGate } from "../browser/polite.js";
+import { log } from "../log.js";
+import type { FlowScrapeConfig } from "../config/config.js";
+
+/* ========================= types ========================= */
+
+export type FlowTarget = {
+  css?: string;
+  text?: string; // regex source; a leading "(?i)" makes it case-insensitive
+};
+
+export type FlowStep = Record<string, any>;
+
+export type Flow = {
+  kind: string;
+  path: string;
+  steps: FlowStep[];
+};
+
+export type FlowLogger = {
+  debug: (...a: any[]) => any;
+  info: (...a: any[]) => any;
+  warn: (...a: any[]) => any;
+};
+
+export type FlowContext = {
+  url: string;
+  kind: string;
+  log?: FlowLogger;
+  config?: FlowScrapeConfig;
+  // filled while the flow runs
+  items: any[];
+  collects: CollectSpec[];
+  // `paginate` only records the hint; engines drive the page loop
+  paginate?: { next: string; maxPages?: number };
+  // goto steps that failed (timeouts, redirect loops…)
+  failures: Failure[];
+};
+
+type CollectSpec = {
+  list: string[];
+  fields: Record<string, { sel: string[]; attr?: string; html?: boolean }>;
+};
+
+const KNOWN_STEPS = [
+  "goto",
+  "wait",
+  "maybeScroll",
+  "dismissModals",
+  "repeat",
+  "clickIfVisible",
+  "waitFor",
+  "collect",
+  "paginate",
+  "exhaust",
+];
+
+// used when selectors/<kind>.json has no entry for a preset
+const BUILTIN_PRESETS: Record<string, string[]> = {
+  open_menu: [
+    "button[aria-label*='menu' i]",
+    "[data-testid*='menu' i]",
+    "button[aria-controls*='nav' i]",
+    ".menu-toggle, .hamburger",
+  ],
+  category_links: [
+    "a[href*='/collections/']",
+    "a[href*='/category/']",
+    "a[href*='/categories/']",
+  ],
+};
+
+const DEFAULT_WAIT_FOR_MS = 5000;
+
+/* ========================= load ========================= */
+
+/**
+ * Load flows/<kind>.yaml (falls back to flows/generic.yaml) and validate it.
+ * Throws on unknown steps so a typo in a flow never silently does nothing.
+ */
+export function loadFlow(kind: string): Flow {
+  let path = `flows/${kind}.yaml`;
+  if (!existsSync(path)) path = "flows/generic.yaml";
+
+  const doc = parseYaml(readFileSync(path, "utf8")) || {};
+  const steps = Array.isArray(doc.steps) ? doc.steps : [];
+  validateSteps(steps, path);
+
+  return { kind, path, steps };
+}
+
+function validateSteps(steps: any[], path: string, trail = "steps") {
+  steps.forEach((step, i) => {
+    const where = `${path} → ${trail}[${i}]`;
+    if (!step || typeof step !== "object" || Array.isArray(step)) {
+      throw new Error(`[flow] invalid step at ${where}: expected a mapping`);
+    }
+    const keys = Object.keys(step);
+    if (keys.length !== 1) {
+      throw new Error(
+        `[flow] invalid step at ${where}: expected exactly one step name, got ${keys.join(", ") || "(none)"}`
+      );
+    }
+    const name = keys[0];
+    if (!KNOWN_STEPS.includes(name)) {
+      throw new Error(
+        `[flow] unknown step "${name}" at ${where} (known: ${KNOWN_STEPS.join(", ")})`
+      );
+    }
+    if (name === "repeat") {
+      validateSteps(step.repeat?.steps ?? [], path, `${trail}[${i}].repeat.steps`);
+    }
+  });
+}
+
+/* ========================= execute ========================= */
+
+export async function executeFlow(
+  page: Page,
+  flow: Flow,
+  opts: { url: string; log?: FlowLogger; config?: FlowScrapeConfig }
+): Promise<FlowContext> {
+  const ctx: FlowContext = {
+    url: opts.url,
+    kind: flow.kind,
+    log: opts.log,
+    config: opts.config,
+    items: [],
+    collects: [],
+    failures: [],
+  };
+  await runSteps(page, flow.steps, ctx);
+  return ctx;
+}
+
+async function runSteps(page: Page, steps: FlowStep[], ctx: FlowContext) {
+  for (const step of steps) {
+    const [name] = Object.keys(step);
+    if (ctx.config?.debug.steps) ctx.log?.info("[flow] step:", name);
+    else ctx.log?.debug("[flow] step:", name);
+    try {
+      await runStep(page, name, step[name], ctx);
+    } catch (err: any) {
+      // steps are best-effort: a flaky click must not abort the run
+      ctx.log?.warn(`[flow] step ${name} failed:`, err?.message || String(err));
+    }
+  }
+}
+
+async function runStep(page: Page, name: string, arg: any, ctx: FlowContext) {
+  switch (name) {
+    case "goto": {
+      const target = String(arg).replace(/\{\{\s*url\s*\}\}/g, ctx.url);
+      // engines already landed on the url; don't pay for a second load
+      if (sameUrl(page.url(), target)) return;
+      const nav = await safeGotoStep(page, target, ctx.config);
+      if (nav.ok) await waitIdle(page, 200);
+      else if (nav.failure) ctx.failures.push(nav.failure);
+      return;
+    }
+
+    case "wait":
+      await page.waitForTimeout(Number(arg) || 0);
+      return;
+
+    case "maybeScroll":
+      if (arg !== false) await maybeScroll(page);
+      return;
+
+    case "dismissModals":
+      if (arg !== false) await dismissModals(page, ctx.config?.i18n.closeWords);
+      return;
+
+    case "repeat": {
+      const times = Math.max(0, Number(arg?.times ?? 1));
+      for (let i = 0; i < times; i++) {
+        await runSteps(page, arg?.steps ?? [], ctx);
+      }
+      return;
+    }
+
+    case "clickIfVisible":
+      await clickIfVisible(page, arg, ctx);
+      return;
+
+    case "waitFor":
+      await waitForAny(page, arg, ctx);
+      return;
+
+    case "collect": {
+      const spec = toCollectSpec(arg);
+      ctx.collects.push(spec);
+      const html = await page.content();
+      const items = collectFromHtml(html, spec, page.url());
+      ctx.log?.debug(`[flow] collect → ${items.length} items`);
+      ctx.items.push(...items);
+      return;
+    }
+
+    case "exhaust": {
+      if (arg === false) return;
+      const o = typeof arg === "object" && arg ? arg : {};
+      // default to the last collect's list so we count the cards we'll extract
+      const listSelector = o.list ?? ctx.collects[ctx.collects.length - 1]?.list;
+      const res = await exhaustListing(page, {
+        listSelector,
+        loadMoreWords: o.loadMoreWords ?? ctx.config?.i18n.loadMoreWords,
+        maxRounds: o.maxRounds ?? ctx.config?.exhaust.maxRounds,
+        maxMs: o.timeoutMs ?? ctx.config?.exhaust.maxMs,
+        plateauRounds: o.plateauRounds ?? ctx.config?.exhaust.plateauRounds,
+        log: ctx.log,
+      });
+      ctx.log?.debug(
+        `[flow] exhaust → ${res.cards} cards in ${res.rounds} rounds (${res.clicks} clicks, ${res.stopReason})`
+      );
+      return;
+    }
+
+    case "paginate": {
+      const next = typeof arg === "string" ? arg : arg?.next;
+      if (!next) throw new Error("paginate needs a `next` selector");
+      ctx.paginate = {
+        next: String(next),
+        ...(arg?.maxPages ? { maxPages: Number(arg.maxPages) } : {}),
+      };
+      return;
+    }
+  }
+}
+
+/* ========================= clickIfVisible / waitFor ========================= */
+
+// `{{ i18n.shopWords }}` → "shop|store|…" so flows can reuse the config word lists
+function expandWords(text: string | undefined, ctx: FlowContext) {
+  if (!text) return text;
+  return text.replace(/\{\{\s*i18n\.(\w+)\s*\}\}/g, (_, key) => {
+    const words: string[] = (ctx.config?.i18n as any)?.[key] || [];
+    return words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  });
+}
+
+function resolveTargets(arg: any, ctx: FlowContext): FlowTarget[] {
+  if (!arg) return [];
+  if (typeof arg === "string") return [{ css: arg }];
+
+  const out: FlowTarget[] = [];
+  if (Array.isArray(arg.anyOf)) {
+    for (const t of arg.anyOf) {
+      if (typeof t === "string") out.push({ css: t });
+      else if (t?.css || t?.text) out.push({ css: t.css, text: expandWords(t.text, ctx) });
+    }
+  }
+  if (arg.css || arg.text) out.push({ css: arg.css, text: expandWords(arg.text, ctx) });
+  if (arg.preset) {
+    const fromKind = loadSelectorsForKind(ctx.kind)?.[arg.preset];
+    const sels: string[] = Array.isArray(fromKind)
+      ? fromKind
+      : BUILTIN_PRESETS[arg.preset] || [];
+    if (!sels.length) throw new Error(`unknown preset "${arg.preset}"`);
+    out.push(...sels.map((css) => ({ css })));
+  }
+  return out;
+}
+
+function toRegex(src: string): RegExp {
+  const insensitive = src.startsWith("(?i)");
+  return new RegExp(insensitive ? src.slice(4) : src, insensitive ? "i" : "");
+}
+
+async function clickIfVisible(page: Page, arg: any, ctx: FlowContext) {
+  const targets = resolveTargets(arg, ctx);
+  const maxTries = Math.max(1, Number(arg?.maxTries ?? 1));
+  // on the listing that was asked for, a click that navigates (category_links → a nav link) is undone
+  const lists = [...DEFAULT_CARD_SELECTORS, ...ctx.collects.flatMap((c) => c.list)];
+  const onListing = sameUrl(page.url(), ctx.url) && (await countCards(page, lists)) > 0;
+
+  for (let attempt = 0; attempt < maxTries; attempt++) {
+    let clicked = false;
+    for (const t of targets) {
+      let loc = page.locator(t.css || "*");
+      if (t.text) loc = loc.filter({ hasText: toRegex(t.text) });
+      const first = loc.first();
+      const visible = await first.isVisible().catch(() => false);
+      if (!visible) continue;
+
+      await first.click({ timeout: 1500 }).catch(() => {});
+      const say = ctx.config?.debug.clicks ? ctx.log?.info : ctx.log?.debug;
+      say?.("[flow] clicked:", t.css || "*", t.text ? `(text ${t.text})` : "");
+      await waitIdle(page, 200);
+      if (onListing && !sameUrl(page.url(), ctx.url)) {
+        ctx.log?.info("[flow] click left the requested listing for", page.url(), "— going back");
+        const nav = await safeGotoStep(page, ctx.url, ctx.config);
+        if (nav.ok) await waitIdle(page, 200);
+        else if (nav.failure) ctx.failures.push(nav.failure);
+        return;
+      }
+      clicked = true;
+      break;
+    }
+    if (!clicked) return;
+  }
+}
+
+async function waitForAny(page: Page, arg: any, ctx: FlowContext) {
+  const targets = resolveTargets(arg, ctx);
+  if (!targets.length) return;
+  const timeout = Number(arg?.timeoutMs) || DEFAULT_WAIT_FOR_MS;
+
+  // same matching as clickIfVisible: css, narrowed by text when both are given
+  const found = await Promise.any(
+    targets.map((t) => {
+      let loc = page.locator(t.css || "*");
+      if (t.text) loc = loc.filter({ hasText: toRegex(t.text) });
+      const label = (t.css || "*") + (t.text ? ` (text ${t.text})` : "");
+      return loc.first().waitFor({ timeout }).then(() => label);
+    })
+  ).catch(() => null);
+
+  if (found) ctx.log?.debug("[flow] waitFor matched:", found);
+  else ctx.log?.debug("[flow] waitFor timed out after", timeout, "ms");
+}
+
+/* ========================= collect ========================= */
+
+// a YAML list is several selectors; a string is one (commas inside :is(), [attr="a,b"]… stay)
+function splitSelectors(s: any): string[] {
+  if (!s) return [];
+  const arr = Array.isArray(s) ? s : [s];
+  return arr.map((x) => String(x).trim()).filter(Boolean);
+}
+
+function toCollectSpec(arg: any): CollectSpec {
+  const list = splitSelectors(arg?.list);
+  if (!list.length) throw new Error("collect needs a `list` selector");
+
+  const fields: CollectSpec["fields"] = {};
+  for (const [rawName, rule] of Object.entries<any>(arg?.fields || {})) {
+    const name = rawName === "img" ? "image" : rawName;
+    const sel = splitSelectors(typeof rule === "object" && !Array.isArray(rule) ? rule?.sel : rule);
+    if (!sel.length) continue; // e.g. `sku: ""` or `textLen: { textLen: true }`
+    fields[name] = {
+      sel,
+      ...(rule?.attr ? { attr: rule.attr } : {}),
+      ...(rule?.html ? { html: true } : {}),
+    };
+  }
+  return { list, fields };
+}
+
+/** Run a flow `collect` spec against an HTML snapshot. */
+export function collectFromHtml(html: string, spec: CollectSpec, pageUrl?: string): any[] {
+  return extractItems(
+    html,
+    spec.list,
+    spec.fields as any,
+    { buckets: { fields: spec.fields } },
+    pageUrl
+  );
+}
+
+/** Every `collect` a flow declares (inside `repeat`s too) — for offline replay. */
+export function collectSpecsOf(flow: Flow): CollectSpec[] {
+  const out: CollectSpec[] = [];
+  const walk = (steps: FlowStep[]) => {
+    for (const step of steps) {
+      const [name] = Object.keys(step);
+      if (name === "collect") {
+        try {
+          out.push(toCollectSpec(step[name]));
+        } catch {
+          // same as a failing step at runtime: skip it
+        }
+      } else if (name === "repeat") walk(step[name]?.steps ?? []);
+    }
+  };
+  walk(flow.steps);
+  return out;
+}
+
+/** Re-run every `collect` the flow declared (used for pages 2+). */
+export function recollect(html: string, ctx: FlowContext, pageUrl?: string): any[] {
+  return ctx.collects.flatMap((spec) => collectFromHtml(html, spec, pageUrl));
+}
+
+/* ========================= helpers ========================= */
+
+function stripHash(u: string) {
+  return u.replace(/#.*$/, "");
+}
+
+function sameUrl(a: string, b: string) {
+  const norm = (u: string) => stripHash(u).replace(/\/+$/, "");
+  return norm(a) === norm(b);
+}
+
+export async function safeGotoStep(page: Page, target: string, config?: FlowScrapeConfig): Promise<NavOutcome> {
+  try {
+    if (config) await politeGate(target, config, log);
+    await page.goto(target, {
+      waitUntil: "domcontentloaded",
+      timeout: 25000,
+    });
+    return { ok: true };
+  } catch (err: any) {
+    const f = failureFromError(err, target);
+    if (f.kind === "robots") {
+      log.warn("[FlowScrape] robots.txt disallows", target, "— skipped");
+    } else if (f.kind === "too-many-redirects") {
+      log.warn("[FlowScrape] too many redirects for", target);
+    } else if (f.kind === "timeout") {
+      log.warn("[FlowScrape] timeout while loading", target);
+    } else {
+      log.warn("[FlowScrape] goto failed for", target, f.message);
+    }
+    return { ok: false, failure: f };
+  }
+}
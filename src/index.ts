@@ -0,0 +1,153 @@
+// src/index.ts (library entry)
+import { format } from "node:util";
+import { run } from "./engine.js";
+import { runRaw } from "./engine.raw.js";
+import { runHttp } from "./engine.http.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { newRunId, EngineMode, ItemEnvelope } from "./storage/envelope.js";
+import { StorageSink } from "./storage/storage.js";
+import { multiSink } from "./storage/sinks.js";
+import { withRun, urlReport, runDir, RunManifest, UrlReport } from "./storage/runs.js";
+import { judgeRun, failureFromError, EngineResult, Failure } from "./steps/outcome.js";
+import { withLogger, consoleLogger, Logger } from "./log.js";
+import { ContextPool } from "./browser/pool.js";
+import type { PageClassification } from "./detect/router.js";
+
+export { loadConfig, consoleLogger };
+export { createContextPool } from "./browser/pool.js";
+export { jsonlSink, csvSink, sqliteSink, stdoutSink, multiSink, createSink } from "./storage/sinks.js";
+export { readManifest } from "./storage/runs.js";
+export type { FlowScrapeConfig, Logger, StorageSink, ContextPool, EngineMode, ItemEnvelope, Failure, RunManifest, UrlReport, PageClassification };
+
+/* ========================= types ========================= */
+
+// teach needs a person at the overlay, so it isn't offered here
+export type ScrapeMode = "normal" | "raw" | "http";
+
+export type ScrapeOptions = {
+  mode?: ScrapeMode; // default "normal"
+  maxPages?: number;
+  blockHeavy?: boolean; // default true
+  headless?: boolean; // default config.headless
+  assist?: boolean; // raw only
+  config?: FlowScrapeConfig; // default loadConfig(): defaults.yaml < project file < FS_* env
+  runId?: string; // default a new one
+  pool?: ContextPool; // share contexts across scrape() calls
+  logger?: Logger; // default: console lines gated by FS_LOG_LEVEL
+  sink?: StorageSink | StorageSink[]; // default: config.storage (storage/runs/<runId>/ + manifest.json)
+};
+
+export type ScrapeItem = Record<string, any> & ItemEnvelope;
+
+export type ScrapeResult = {
+  url: string;
+  runId: string;
+  ok: boolean; // items were found
+  engine: EngineMode; // "normal" when an http run escalated
+  kind?: string; // classifyPage result
+  classification?: PageClassification; // kind + confidence + hosted search provider (raw: only when it had to classify)
+  adapter?: string; // items came from JSON, not the DOM: a platform or search API (shopify, algolia…) or captured XHR (xhr)
+  items: ScrapeItem[];
+  selectors: EngineResult["selectors"];
+  stats: {
+    items: number;
+    pages: number;
+    htmlBytes: number;
+    ms: number;
+    escalated: boolean;
+  };
+  warnings: string[]; // every warn-level log line of this run
+  dir?: string; // storage/runs/<runId>/ (not set with an injected sink)
+  error?: Failure; // why ok is false (navigation failure, empty page, zero items)
+};
+
+/* ========================= scrape ========================= */
+
+/**
+ * Scrape one URL with the same engines as the CLI and hand the items back.
+ * Items are still written to the sink (storage/ by default) and learned
+ * profiles are still updated. Errors that stop a run (robots.txt with
+ * err.kind "robots", browser launch…) reject; an empty result resolves
+ * with ok: false and `error`.
+ */
+export async function scrape(url: string, options: ScrapeOptions = {}): Promise<ScrapeResult> {
+  const config = options.config ?? loadConfig();
+  const runId = options.runId ?? newRunId();
+  const warnings: string[] = [];
+  const base = options.logger ?? consoleLogger;
+  const logger: Logger = {
+    debug: (...a: any[]) => base.debug(...a),
+    info: (...a: any[]) => base.info(...a),
+    warn: (...a: any[]) => {
+      warnings.push(format(...a));
+      return base.warn(...a);
+    },
+    error: (...a: any[]) => base.error(...a),
+  };
+
+  const engineOpts = {
+    headless: options.headless ?? config.headless,
+    blockHeavy: options.blockHeavy ?? true,
+    maxPages: options.maxPages,
+    config,
+    runId,
+    pool: options.pool,
+  };
+  const go = (): Promise<EngineResult> => {
+    if (options.mode === "raw") return runRaw(url, { ...engineOpts, assist: options.assist, teach: false });
+    if (options.mode === "http") return runHttp(url, engineOpts);
+    return run(url, engineOpts);
+  };
+
+  // no sink given: config.storage sinks in the run dir, plus manifest.json
+  const sink = !options.sink ? undefined : Array.isArray(options.sink) ? multiSink(options.sink) : options.sink;
+  const { mode, maxPages, blockHeavy, headless, assist } = options;
+  const spec = {
+    runId,
+    engine: mode ?? "normal",
+    urls: [url],
+    args: { mode, maxPages, blockHeavy, headless, assist },
+  };
+
+  const t0 = Date.now();
+  const res = await withLogger(logger, () =>
+    withRun(
+      config,
+      spec,
+      async (report) => {
+        try {
+          const r = await go();
+          report(urlReport(url, t0, r));
+          return r;
+        } catch (e) {
+          report(urlReport(url, t0, null, failureFromError(e, url)));
+          throw e;
+        }
+      },
+      sink
+    )
+  );
+  const failure = judgeRun(res);
+
+  return {
+    url,
+    runId,
+    ok: !failure,
+    engine: res.engine,
+    kind: res.kind,
+    ...(res.classification ? { classification: res.classification } : {}),
+    ...(res.adapter ? { adapter: res.adapter } : {}),
+    items: res.items,
+    selectors: res.selectors,
+    stats: {
+      items: res.items.length,
+      pages: res.pages,
+      htmlBytes: res.htmlBytes,
+      ms: Date.now() - t0,
+      escalated: !!res.escalated,
+    },
+    warnings,
+    ...(sink ? {} : { dir: runDir(config.storage.dir, runId) }),
+    ...(failure ? { error: failure } : {}),
+  };
+}
@@ -2,6 +2,7 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 import { load as loadCheerio } from "cheerio";
+import type { JsonMapping } from "../extract/json.js";
 
 const LEARNED_PATH = "storage/learned.json";
 
@@ -104,6 +105,7 @@ export type Profile = {
   id: string;
   match: Match;
   buckets: Buckets;
+  json?: JsonMapping; // XHR / fetch response the grid is rendered from (--capture-json)
   metrics?: {
     runs: number;
     avgItems: number;
@@ -127,9 +129,27 @@ export function loadLearnedSelectors() {
   }
 
   const raw = readFileSync(LEARNED_PATH, "utf8");
-  const data = raw ? JSON.parse(raw) : {};
+  learnedByHost = migrateLearned(raw ? JSON.parse(raw) : {});
+}
+
+/**
+ * Swap the in-memory profiles for `data` (learned.json shape, keyed by host)
+ * without touching disk — fixtures run against their own captured profile.
+ * Call loadLearnedSelectors() to go back to storage/learned.json.
+ */
+export function useLearnedInMemory(data: Record<string, any>) {
+  const keyed: Record<string, any> = {};
+  for (const [host, rec] of Object.entries(data || {})) keyed[normalizeHost(host)] = rec;
+  learnedByHost = migrateLearned(keyed);
+}
+
+/** Raw learned.json record for a host (profiles included), as stored. */
+export function getHostRecord(host: string): HostRecord | null {
+  return learnedByHost[normalizeHost(host)] ?? null;
+}
 
-  // migrate legacy {list, anchors,..., fields} into a default profile
+// migrate legacy {list, anchors,..., fields} into a default profile
+function migrateLearned(data: Record<string, any>): Record<string, HostRecord> {
   for (const [host, rec] of Object.entries<any>(data)) {
     if (rec?.profiles) continue;
 
@@ -155,8 +175,7 @@ export function loadLearnedSelectors() {
       ],
     };
   }
-
-  learnedByHost = data;
+  return data;
 }
 
 function persist() {
@@ -549,6 +568,42 @@ export function upsertProfile(
   persist();
 }
 
+/* ================= json mappings ================= */
+
+/** Mapping of the best-matching profile that has one. */
+export function getJsonMapping(host: string, url: string, html: string): JsonMapping | null {
+  const rec = learnedByHost[normalizeHost(host)];
+  const withJson = (rec?.profiles || []).filter((p) => p.json);
+  if (!withJson.length) return null;
+
+  const u = new URL(url);
+  const best = withJson.reduce((a, b) => (scoreProfile(u, html, b) > scoreProfile(u, html, a) ? b : a));
+  return best.json ?? null;
+}
+
+/**
+ * Store `mapping` on the profile getBestProfile() picks for this page, or a
+ * new profile (no buckets) when the host has none yet.
+ */
+export function saveJsonMapping(host: string, url: string, html: string, mapping: JsonMapping) {
+  const key = normalizeHost(host);
+  learnedByHost[key] ||= { profiles: [] };
+  let p = getBestProfile(host, url, html).profile;
+
+  if (!p) {
+    p = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+      match: { templateHash: html ? makeTemplateHash(html) : undefined },
+      buckets: {},
+      metrics: { runs: 0, avgItems: 0, lastSeen: new Date().toISOString() },
+    };
+    learnedByHost[key].profiles.push(p);
+  }
+
+  p.json = mapping;
+  persist();
+}
+
 /* ===== Convenience (legacy compatibility) ===== */
 
 export function getLearnedForHost(host: string): Buckets | null {
@@ -561,6 +616,12 @@ export function getLearnedForHost(host: string): Buckets | null {
   return normalizeBuckets(p.buckets);
 }
 
+/** Id of the profile getLearnedForHost() falls back to. */
+export function getLearnedProfileId(host: string): string | undefined {
+  const rec = learnedByHost[normalizeHost(host)];
+  return rec?.profiles?.[rec.profiles.length - 1]?.id;
+}
+
 export function saveLearnedForHost(host: string, payload: Buckets) {
   // Legacy surface: write into a "default" profile in a generic way.
   upsertProfile(
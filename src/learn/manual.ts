@@ -190,6 +190,7 @@ export async function enableTeachMode(
   const log = logger ?? defaultLogger;
 
   // 1) Mixed-content upgrade (generic best-effort)
+  //    fallback() rather than continue() so context-level blocking still applies
   try {
     const routeBound = await page
       .evaluate(() => (window as any).__FS_HTTP_ROUTE_BOUND__ === true)
@@ -199,17 +200,17 @@ export async function enableTeachMode(
       await page.route("http://*/*", async (route) => {
         try {
           const mainIsHttps = /^https:\/\//i.test(page.url());
-          if (!mainIsHttps) return route.continue();
+          if (!mainIsHttps) return route.fallback();
         } catch {
-          return route.continue();
+          return route.fallback();
         }
 
         const reqUrl = route.request().url();
         const httpsUrl = reqUrl.replace(/^http:\/\//i, "https://");
-        if (httpsUrl === reqUrl) return route.continue();
+        if (httpsUrl === reqUrl) return route.fallback();
 
         try {
-          await route.continue({ url: httpsUrl });
+          await route.fallback({ url: httpsUrl });
         } catch {
           await route.abort();
         }
@@ -0,0 +1,54 @@
+// src/log.ts
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/* ========================= types ========================= */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Anything with these four methods: console-like, pino, winston… */
+export type Logger = Record<LogLevel, (...a: any[]) => any>;
+
+/* ========================= console ========================= */
+
+const LOG_LEVEL = (process.env.FS_LOG_LEVEL || "info").toLowerCase();
+const ORDER: Record<string, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const canLog = (lvl: string) => (ORDER[lvl] ?? 20) >= (ORDER[LOG_LEVEL] ?? 20);
+
+// flipped by the stdout sink so items own stdout
+let toStderr = false;
+
+/** Send console log lines (and printed summaries) to stderr from now on. */
+export function logToStderr() {
+  toStderr = true;
+}
+
+/** Plain human-facing lines (summaries): stdout, or stderr once stdout carries data. */
+export function print(...a: any[]) {
+  (toStderr ? console.error : console.log)(...a);
+}
+
+/** What the CLI prints: `[info] …` lines, gated by FS_LOG_LEVEL. */
+export const consoleLogger: Logger = {
+  debug: (...a: any[]) => canLog("debug") && print("[debug]", ...a),
+  info:  (...a: any[]) => canLog("info")  && print("[info]",  ...a),
+  warn:  (...a: any[]) => canLog("warn")  && print("[warn]",  ...a),
+  error: (...a: any[]) => canLog("error") && print("[error]", ...a),
+};
+
+/* ========================= scope ========================= */
+
+// per async call chain, so concurrent scrape() calls keep their own logger
+const scope = new AsyncLocalStorage<Logger>();
+
+/** Run `fn` with every engine log line going to `logger` instead of the console. */
+export function withLogger<T>(logger: Logger, fn: () => Promise<T>): Promise<T> {
+  return scope.run(logger, fn);
+}
+
+/** Engines log through this: the injected logger when there is one, else the console. */
+export const log: Logger = {
+  debug: (...a: any[]) => (scope.getStore() ?? consoleLogger).debug(...a),
+  info:  (...a: any[]) => (scope.getStore() ?? consoleLogger).info(...a),
+  warn:  (...a: any[]) => (scope.getStore() ?? consoleLogger).warn(...a),
+  error: (...a: any[]) => (scope.getStore() ?? consoleLogger).error(...a),
+};
@@ -0,0 +1,319 @@
+// src/server.ts (local HTTP service: --serve)
+import { createServer, IncomingMessage, ServerResponse, Server } from "node:http";
+import { scrape, ScrapeMode, ScrapeResult } from "./index.js";
+import { extractNormalFromHtml } from "./engine.js";
+import { extractItems } from "./extract/extract.js";
+import { withFallbackLocale } from "./extract/price.js";
+import { loadLearnedSelectors, getHostRecord } from "./learn/learn.js";
+import { newRunId } from "./storage/envelope.js";
+import { loadConfig, FlowScrapeConfig } from "./config/config.js";
+import { createContextPool, ContextPool } from "./browser/pool.js";
+import { log, consoleLogger, Logger, LogLevel } from "./log.js";
+
+/* ========================= types ========================= */
+
+export type ServeOpts = {
+  port?: number; // default 8787
+  host?: string; // default 127.0.0.1 — this is a local daemon
+  config?: FlowScrapeConfig;
+};
+
+type RunState = "running" | "done" | "failed";
+
+type RunEvent = {
+  seq: number;
+  type: "log" | "done" | "failed";
+  ts: number;
+  data: any;
+};
+
+type ServiceRun = {
+  id: string;
+  url: string;
+  mode: ScrapeMode;
+  state: RunState;
+  createdAt: number;
+  finishedAt?: number;
+  result?: ScrapeResult;
+  error?: { kind?: string; message: string };
+  events: RunEvent[];
+  lastSeq: number; // ids keep counting after old log events are evicted
+  listeners: Set<(e: RunEvent) => void>;
+};
+
+const MODES: ScrapeMode[] = ["normal", "raw", "http"];
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // /extract takes whole pages
+const MAX_RUNS = 200; // finished runs kept for GET /runs/:id
+const MAX_EVENTS = 1000; // per run; the oldest log events make room, done / failed always stay
+const HEARTBEAT_MS = 15_000;
+
+/* ========================= runs ========================= */
+
+const runs = new Map<string, ServiceRun>();
+
+function emit(run: ServiceRun, type: RunEvent["type"], data: any) {
+  const e: RunEvent = { seq: ++run.lastSeq, type, ts: Date.now(), data };
+  if (run.events.length >= MAX_EVENTS) {
+    const oldest = run.events.findIndex((x) => x.type === "log");
+    if (oldest >= 0) run.events.splice(oldest, 1);
+  }
+  run.events.push(e);
+  for (const fn of run.listeners) fn(e);
+}
+
+// run progress: info and up becomes an event; everything still reaches the console
+function runLogger(run: ServiceRun): Logger {
+  const level = (lvl: LogLevel) => (...a: any[]) => {
+    if (lvl !== "debug") emit(run, "log", { level: lvl, msg: a.map(text).join(" ") });
+    return consoleLogger[lvl](`[run ${run.id}]`, ...a);
+  };
+  return { debug: level("debug"), info: level("info"), warn: level("warn"), error: level("error") };
+}
+
+function text(v: any) {
+  if (typeof v === "string") return v;
+  if (v instanceof Error) return v.message;
+  try {
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+// oldest finished runs go first; running ones are never dropped
+function pruneRuns() {
+  const finished = [...runs.values()].filter((r) => r.state !== "running");
+  for (const r of finished.slice(0, Math.max(0, runs.size - MAX_RUNS))) runs.delete(r.id);
+}
+
+function runView(run: ServiceRun, withItems = true) {
+  const { listeners, events, result, ...rest } = run;
+  return {
+    ...rest,
+    events: events.length,
+    ...(result ? { result: withItems ? result : { ...result, items: undefined } } : {}),
+  };
+}
+
+/* ========================= http helpers ========================= */
+
+// thrown from routes; err.status becomes the response status
+function fail(status: number, message: string): never {
+  throw Object.assign(new Error(message), { status });
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const c of req) {
+    size += c.length;
+    if (size > MAX_BODY_BYTES) fail(413, `body over ${MAX_BODY_BYTES} bytes`);
+    chunks.push(Buffer.from(c));
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (e: any) {
+    fail(400, `invalid JSON (${e?.message || e})`);
+  }
+}
+
+function send(res: ServerResponse, status: number, body: any) {
+  res.writeHead(status, { "content-type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+function httpUrl(v: any, field = "url"): string {
+  if (typeof v !== "string" || !/^https?:\/\//i.test(v)) {
+    fail(400, `${field} must be an http(s) URL`);
+  }
+  return v;
+}
+
+/* ========================= routes ========================= */
+
+type Ctx = { config: FlowScrapeConfig; pool: ContextPool };
+
+/**
+ * POST /scrape {url, mode?, maxPages?, blockHeavy?, assist?, wait?}
+ * 202 + runId right away (poll GET /runs/:id or stream /runs/:id/events);
+ * with wait: true the response is the finished ScrapeResult.
+ */
+async function postScrape(req: IncomingMessage, res: ServerResponse, ctx: Ctx) {
+  const body = await readJson(req);
+  const url = httpUrl(body.url);
+  const mode: ScrapeMode = body.mode ?? "normal";
+  if (!MODES.includes(mode)) fail(400, `mode must be ${MODES.join(" | ")}`);
+  if (body.maxPages != null && !(Number(body.maxPages) > 0)) {
+    fail(400, "maxPages must be a positive number");
+  }
+
+  const run: ServiceRun = {
+    id: newRunId(),
+    url,
+    mode,
+    state: "running",
+    createdAt: Date.now(),
+    events: [],
+    lastSeq: 0,
+    listeners: new Set(),
+  };
+  runs.set(run.id, run);
+  pruneRuns();
+  log.info(`[serve] run ${run.id}: ${mode} ${url}`);
+
+  const done = scrape(url, {
+    mode,
+    maxPages: body.maxPages != null ? Number(body.maxPages) : undefined,
+    blockHeavy: body.blockHeavy ?? true,
+    assist: !!body.assist,
+    config: ctx.config,
+    runId: run.id,
+    pool: ctx.pool,
+    logger: runLogger(run),
+  }).then(
+    (result) => {
+      run.state = "done";
+      run.result = result;
+      run.finishedAt = Date.now();
+      emit(run, "done", { ok: result.ok, items: result.items.length, stats: result.stats, error: result.error });
+    },
+    (err: any) => {
+      run.state = "failed";
+      run.error = { kind: err?.kind, message: String(err?.message || err).split("\n")[0] };
+      run.finishedAt = Date.now();
+      emit(run, "failed", run.error);
+    }
+  );
+
+  if (body.wait) {
+    await done;
+    return send(res, run.state === "done" ? 200 : 500, runView(run));
+  }
+  send(res, 202, { runId: run.id, state: run.state, status: `/runs/${run.id}`, events: `/runs/${run.id}/events` });
+}
+
+/** POST /extract {html, url, list?, fields?} — no browser, nothing written. */
+async function postExtract(req: IncomingMessage, res: ServerResponse, ctx: Ctx) {
+  const body = await readJson(req);
+  const url = httpUrl(body.url);
+  if (typeof body.html !== "string") fail(400, "html must be a string");
+
+  // explicit selectors: exactly those; otherwise the normal engine's plan
+  if (body.list) {
+    const list = (Array.isArray(body.list) ? body.list : String(body.list).split(","))
+      .map((s: string) => String(s).trim())
+      .filter(Boolean);
+    const items = await withFallbackLocale(ctx.config.locale, async () =>
+      extractItems(body.html, list, body.fields || {}, undefined, url)
+    );
+    return send(res, 200, { items });
+  }
+  const { kind, profileId, items } = await withFallbackLocale(ctx.config.locale, () => extractNormalFromHtml(body.html, url));
+  send(res, 200, { kind, profileId, items });
+}
+
+function getProfiles(res: ServerResponse, host: string) {
+  loadLearnedSelectors(); // pick up profiles saved by CLI runs too
+  const rec = getHostRecord(host);
+  if (!rec) fail(404, `no learned profiles for ${host}`);
+  send(res, 200, { host, ...rec });
+}
+
+function getRun(res: ServerResponse, id: string, withItems: boolean) {
+  const run = runs.get(id);
+  if (!run) fail(404, `unknown run ${id}`);
+  send(res, 200, runView(run, withItems));
+}
+
+/** Server-sent events: past events first, then live ones until the run ends. */
+function streamRun(req: IncomingMessage, res: ServerResponse, id: string) {
+  const run = runs.get(id);
+  if (!run) fail(404, `unknown run ${id}`);
+
+  const after = Number(req.headers["last-event-id"]) || 0;
+  res.writeHead(200, {
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache",
+    connection: "keep-alive",
+  });
+  const write = (e: RunEvent) => res.write(`id: ${e.seq}\nevent: ${e.type}\ndata: ${JSON.stringify(e.data)}\n\n`);
+  for (const e of run.events) if (e.seq > after) write(e);
+  if (run.state !== "running") return res.end();
+
+  const beat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_MS);
+  const listener = (e: RunEvent) => {
+    write(e);
+    if (e.type !== "log") res.end();
+  };
+  run.listeners.add(listener);
+  res.on("close", () => {
+    clearInterval(beat);
+    run.listeners.delete(listener);
+  });
+}
+
+// `/profiles/%E0` is a bad request, not a crash
+function decodePart(s: string) {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    fail(400, `malformed path segment: ${s}`);
+  }
+}
+
+async function route(req: IncomingMessage, res: ServerResponse, ctx: Ctx) {
+  const u = new URL(req.url || "/", "http://localhost");
+  const parts = u.pathname.split("/").filter(Boolean).map(decodePart);
+  const method = req.method || "GET";
+
+  if (method === "POST" && u.pathname === "/scrape") return postScrape(req, res, ctx);
+  if (method === "POST" && u.pathname === "/extract") return postExtract(req, res, ctx);
+  if (method === "GET" && parts[0] === "profiles" && parts.length === 2) return getProfiles(res, parts[1]);
+  if (method === "GET" && u.pathname === "/runs") {
+    return send(res, 200, { runs: [...runs.values()].map((r) => runView(r, false)) });
+  }
+  if (method === "GET" && parts[0] === "runs" && parts.length === 2) {
+    return getRun(res, parts[1], u.searchParams.get("items") !== "0");
+  }
+  if (method === "GET" && parts[0] === "runs" && parts[2] === "events" && parts.length === 3) {
+    return streamRun(req, res, parts[1]);
+  }
+  if (method === "GET" && u.pathname === "/health") return send(res, 200, { ok: true, runs: runs.size });
+  fail(404, `no route for ${method} ${u.pathname}`);
+}
+
+/* ========================= main ========================= */
+
+/**
+ * Start the daemon. Scrapes share one context pool (config `pool`), so
+ * concurrency / per-host caps apply across requests. Resolves once listening.
+ */
+export async function startServer(opts: ServeOpts = {}): Promise<Server> {
+  const config = opts.config ?? loadConfig();
+  const pool = createContextPool(config, { log });
+  const ctx: Ctx = { config, pool };
+  loadLearnedSelectors();
+
+  const server = createServer((req, res) => {
+    route(req, res, ctx).catch((err: any) => {
+      const status = err?.status ?? 500;
+      if (status >= 500) log.error("[serve]", req.method, req.url, err?.message || err);
+      if (!res.headersSent) send(res, status, { error: String(err?.message || err) });
+      else res.end();
+    });
+  });
+  server.on("close", () => {
+    pool.close().catch(() => {});
+  });
+
+  const port = opts.port ?? 8787;
+  const host = opts.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  log.info(`[serve] listening on http://${host}:${port}  (POST /scrape, POST /extract, GET /profiles/:host, GET /runs/:id[/events])`);
+  return server;
+}
@@ -0,0 +1,134 @@
+// src/steps/exhaust.ts
+import type { Page } from "playwright";
+
+/* ========================= types ========================= */
+
+export type ExhaustOpts = {
+  // cards to count; several selectors are allowed (best count wins)
+  listSelector?: string | string[];
+  // button labels that load the next batch (i18n.loadMoreWords; matched case-insensitively)
+  loadMoreWords?: string[];
+  maxRounds?: number; // budget: scroll/click rounds
+  maxMs?: number; // budget: wall time
+  plateauRounds?: number; // stop after N rounds without new cards
+  log?: { debug: (...a: any[]) => any };
+};
+
+export type ExhaustResult = {
+  rounds: number;
+  cards: number;
+  clicks: number;
+  stopReason: "plateau" | "max-rounds" | "max-ms";
+};
+
+export const DEFAULT_CARD_SELECTORS = [
+  "[id*='product-grid'] .grid__item",
+  ".collection .grid__item",
+  "[data-product-id]",
+  "[data-product]",
+  ".product-card",
+  ".product-tile",
+  "li.product",
+  "[itemscope][itemtype*='Product']",
+];
+
+// anchors with a real href navigate away — pagination handles those
+const CLICKABLES =
+  "button, [role='button'], a:not([href]), a[href='#'], a[href^='javascript']";
+
+/* ========================= helpers ========================= */
+
+// a list is several selectors; a string is one, like flow `collect` lists (:is(.a, .b) stays whole)
+function toSelectors(x?: string | string[]): string[] {
+  if (!x) return [];
+  const arr = Array.isArray(x) ? x : [x];
+  return arr.map((s) => s.trim()).filter(Boolean);
+}
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Highest card count over the given selectors (invalid selectors count as 0). */
+export async function countCards(page: Page, selectors: string[]): Promise<number> {
+  return page
+    .evaluate((sels) => {
+      let best = 0;
+      for (const s of sels) {
+        try {
+          best = Math.max(best, document.querySelectorAll(s).length);
+        } catch {
+          // invalid selector
+        }
+      }
+      return best;
+    }, selectors)
+    .catch(() => 0);
+}
+
+async function clickLoadMore(page: Page, words: string[]): Promise<boolean> {
+  if (!words.length) return false;
+  const re = new RegExp(`^\\s*(${words.map(escapeRe).join("|")})\\b`, "i");
+  const btn = page.locator(CLICKABLES).filter({ hasText: re }).first();
+  if (!(await btn.isVisible().catch(() => false))) return false;
+  await btn.scrollIntoViewIfNeeded({ timeout: 1000 }).catch(() => {});
+  return btn
+    .click({ timeout: 2000 })
+    .then(() => true)
+    .catch(() => false);
+}
+
+/* ========================= main ========================= */
+
+/**
+ * Alternate scrolling to the bottom with clicking "load more" buttons until
+ * the card count stops growing (plateau) or the round/time budget runs out.
+ */
+export async function exhaustListing(page: Page, opts: ExhaustOpts = {}): Promise<ExhaustResult> {
+  const selectors = toSelectors(opts.listSelector);
+  const sels = selectors.length ? selectors : DEFAULT_CARD_SELECTORS;
+  const words = opts.loadMoreWords ?? [];
+  const maxRounds = opts.maxRounds ?? 12;
+  const maxMs = opts.maxMs ?? 20000;
+  const plateauRounds = opts.plateauRounds ?? 2;
+
+  const started = Date.now();
+  let cards = await countCards(page, sels);
+  let lastHeight = 0;
+  let flat = 0;
+  let clicks = 0;
+  let rounds = 0;
+
+  while (true) {
+    if (rounds >= maxRounds) return { rounds, cards, clicks, stopReason: "max-rounds" };
+    if (Date.now() - started > maxMs) return { rounds, cards, clicks, stopReason: "max-ms" };
+    rounds++;
+
+    // scroll first; infinite-scroll grids load on their own
+    const height = await page
+      .evaluate(() => {
+        const sh = document.documentElement.scrollHeight;
+        window.scrollTo(0, sh);
+        return sh;
+      })
+      .catch(() => 0);
+    await page.waitForTimeout(400);
+
+    // then give "load more" a chance
+    if (await clickLoadMore(page, words)) {
+      clicks++;
+      await page.waitForTimeout(800);
+    }
+
+    const now = await countCards(page, sels);
+    const grew = now > cards || (now === 0 && height > lastHeight);
+    opts.log?.debug(
+      `[exhaust] round ${rounds}: cards ${cards} → ${now}, clicks ${clicks}, height ${height}`
+    );
+    cards = Math.max(cards, now);
+    lastHeight = Math.max(lastHeight, height);
+
+    if (grew) flat = 0;
+    else if (++flat >= plateauRounds) return { rounds, cards, clicks, stopReason: "plateau" };
+  }
+}
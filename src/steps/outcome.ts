@@ -0,0 +1,68 @@
+// src/steps/outcome.ts
+import type { EngineMode } from "../storage/envelope.js";
+import type { PageClassification } from "../detect/router.js";
+
+/* ========================= types ========================= */
+
+export type FailureKind =
+  | "timeout"
+  | "too-many-redirects"
+  | "net" // DNS, refused, reset, TLS…
+  | "crash" // page / browser died
+  | "robots" // robots.txt disallows the URL — skipped, never retried
+  | "empty-html"
+  | "zero-items"
+  | "other";
+
+/** Why a navigation (or a whole URL) didn't produce what we wanted. */
+export type Failure = {
+  kind: FailureKind;
+  message: string;
+  url?: string;
+};
+
+/** What safeInitialGoto / safeGotoStep report instead of a bare boolean. */
+export type NavOutcome = { ok: boolean; failure?: Failure };
+
+/** What every engine run resolves to (after writing its items to storage). */
+export type EngineResult = {
+  engine: EngineMode; // the engine that produced the items (normal when --http escalated)
+  kind?: string; // classifyPage result
+  classification?: PageClassification; // the whole of it: confidence, hosted search provider
+  items: any[]; // enveloped, as written
+  pages: number;
+  selectors: { list: string[]; fields: Record<string, any> };
+  htmlBytes: number; // first page, after rendering
+  nav?: Failure; // first navigation failure, if any
+  escalated?: boolean; // --http fell back to the browser
+  adapter?: string; // items came from JSON, not the DOM: a platform or search API (shopify, algolia…) or captured XHR (xhr)
+  metrics?: Record<string, number>; // 0..1 quality figures: precision (raw), coverage (teach)
+};
+
+/* ========================= classify ========================= */
+
+/** Map a Playwright / network error onto a FailureKind. */
+export function classifyError(err: any): FailureKind {
+  if (err?.kind) return err.kind; // our own errors say what they are
+  const msg = String(err?.message || err || "");
+  if (err?.name === "TimeoutError" || /timeout \d+ms exceeded|ERR_TIMED_OUT/i.test(msg)) return "timeout";
+  if (/ERR_TOO_MANY_REDIRECTS|redirect(ed)? too many times/i.test(msg)) return "too-many-redirects";
+  if (/Target (page, context or browser )?(has been )?closed|crash|browser has disconnected/i.test(msg)) return "crash";
+  if (/net::ERR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|getaddrinfo|socket hang up/i.test(msg)) return "net";
+  return "other";
+}
+
+export function failureFromError(err: any, url?: string): Failure {
+  return { kind: classifyError(err), message: String(err?.message || err || "").split("\n")[0], url };
+}
+
+/**
+ * Judge a finished engine run: a failed first navigation explains an empty
+ * result better than "zero items", so it wins when nothing was extracted.
+ */
+export function judgeRun(res: Pick<EngineResult, "items" | "htmlBytes" | "nav">): Failure | null {
+  if (res.items.length > 0) return null;
+  if (res.nav) return res.nav;
+  if (res.htmlBytes === 0) return { kind: "empty-html", message: "page content was empty" };
+  return { kind: "zero-items", message: "no items extracted" };
+}
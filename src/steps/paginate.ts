@@ -0,0 +1,287 @@
+// src/steps/paginate.ts
+import type { Page } from "playwright";
+import { load, CheerioAPI } from "cheerio";
+import { canonicalHref } from "../storage/envelope.js";
+
+/* ========================= types ========================= */
+
+export type NextPage = {
+  url: string;
+  via: "rel" | "selector" | "numbered" | "query" | "path";
+};
+
+export type PaginateLogger = {
+  info: (...a: any[]) => any;
+  debug: (...a: any[]) => any;
+};
+
+export type PaginateOpts = {
+  maxPages: number;
+  // extra "next" selector, e.g. `paginate.next` from a flow
+  nextSelector?: string;
+  // let the page render after each navigation (scroll, wait for grid…)
+  settle?: (page: Page) => Promise<void>;
+  // runs before each navigation (politeness); throwing stops pagination
+  beforeGoto?: (url: string) => Promise<void>;
+  // called with each extra page's HTML (snapshots, etc.)
+  onPage?: (url: string, html: string, pageNo: number) => Promise<void> | void;
+  log?: PaginateLogger;
+};
+
+export type PaginateResult = {
+  items: any[];
+  pages: number;
+  stopReason: "max-pages" | "no-next" | "no-new-hrefs" | "revisit" | "goto-failed" | "robots";
+};
+
+// what a page load hands back: its HTML and final URL (after redirects)
+type Loaded = { html: string; url: string };
+
+const PAGINATION_SCOPES = [
+  ".pagination",
+  ".pager",
+  "nav[aria-label*='pag' i]",
+  "[class*='pagination']",
+  "[class*='pager']",
+  "[data-pagination]",
+];
+
+const PAGE_PARAMS = ["page", "p", "pg", "pagenum", "pageNumber"];
+
+/* ========================= next-page detection ========================= */
+
+/**
+ * Find the URL of the page after `pageNo`, trying (in order):
+ *  1) rel=next links
+ *  2) a caller-provided selector (flow `paginate.next`)
+ *  3) numbered links ("2", "3", …) inside pagination widgets
+ *  4) ?page=N / /page/N URL patterns
+ */
+export function findNextPageUrl(
+  html: string,
+  currentUrl: string,
+  pageNo: number,
+  nextSelector?: string
+): NextPage | null {
+  const $ = load(html);
+  const abs = (href?: string) => {
+    if (!href || /^(javascript:|#)/i.test(href.trim())) return null;
+    try {
+      return new URL(href, currentUrl).toString();
+    } catch {
+      return null;
+    }
+  };
+
+  // 1) rel=next
+  const rel = abs($("link[rel='next'], a[rel~='next']").first().attr("href"));
+  if (rel) return { url: rel, via: "rel" };
+
+  // 2) flow selector (may point at the anchor or at a wrapper around it)
+  if (nextSelector) {
+    try {
+      const el = $(nextSelector).first();
+      const href = el.is("a[href]") ? el.attr("href") : el.find("a[href]").first().attr("href");
+      const u = abs(href);
+      if (u) return { url: u, via: "selector" };
+    } catch {
+      // ignore bad selectors
+    }
+  }
+
+  // 3) numbered links
+  const numbered = findNumberedLink($, pageNo + 1);
+  const nu = abs(numbered);
+  if (nu) return { url: nu, via: "numbered" };
+
+  // 4) URL patterns
+  const fromQuery = bumpPageParam(currentUrl, pageNo);
+  if (fromQuery) return { url: fromQuery, via: "query" };
+
+  const fromPath = bumpPagePath(currentUrl, pageNo);
+  if (fromPath) return { url: fromPath, via: "path" };
+
+  // page 1 usually has no page param; copy the pattern from a page-2 link
+  const hinted = $("a[href]")
+    .toArray()
+    .map((a) => $(a).attr("href") || "")
+    .find((h) => new RegExp(`[?&](${PAGE_PARAMS.join("|")})=${pageNo + 1}(&|$)`, "i").test(h));
+  const hu = abs(hinted);
+  if (hu) return { url: hu, via: "query" };
+
+  return null;
+}
+
+function findNumberedLink($: CheerioAPI, n: number): string | undefined {
+  const wanted = String(n);
+  const isWanted = (el: any) =>
+    $(el).text().replace(/\s+/g, " ").trim() === wanted ||
+    ($(el).attr("aria-label") || "").replace(/\D+/g, "") === wanted;
+
+  for (const scope of PAGINATION_SCOPES) {
+    const hit = $(scope).find("a[href]").toArray().find(isWanted);
+    if (hit) return $(hit).attr("href");
+  }
+  // unscoped: only trust links that also look page-ish
+  const loose = $("a[href]")
+    .toArray()
+    .find((a) => isWanted(a) && /page|[?&]p=/i.test($(a).attr("href") || ""));
+  return loose ? $(loose).attr("href") : undefined;
+}
+
+function bumpPageParam(currentUrl: string, pageNo: number): string | null {
+  try {
+    const u = new URL(currentUrl);
+    for (const k of PAGE_PARAMS) {
+      const v = u.searchParams.get(k);
+      if (v == null || !/^\d+$/.test(v)) continue;
+      if (Number(v) !== pageNo) continue;
+      u.searchParams.set(k, String(pageNo + 1));
+      return u.toString();
+    }
+  } catch {
+    // ignore
+  }
+  return null;
+}
+
+function bumpPagePath(currentUrl: string, pageNo: number): string | null {
+  try {
+    const u = new URL(currentUrl);
+    const m = u.pathname.match(/\/page\/(\d+)\/?$/i);
+    if (!m || Number(m[1]) !== pageNo) return null;
+    u.pathname = u.pathname.replace(/\/page\/\d+(\/?)$/i, `/page/${pageNo + 1}$1`);
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+/* ========================= crawl ========================= */
+
+function hrefKey(it: any, base: string) {
+  if (!it?.href) return "";
+  try {
+    return new URL(it.href, base).toString().replace(/#.*$/, "");
+  } catch {
+    return String(it.href);
+  }
+}
+
+// href, else title + image (the envelope's fallback) so href-less cards dedupe the same on every page
+function itemDedupeKey(it: any, base: string) {
+  const href = hrefKey(it, base);
+  if (href) return href;
+  const title = it?.title ? String(it.title).replace(/\s+/g, " ").trim().toLowerCase() : "";
+  const image = it?.image ? canonicalHref(it.image, base) : "";
+  return title || image ? `${title}¦${image}` : "";
+}
+
+function tagPage(items: any[], pageNo: number, pageUrl: string) {
+  return items.map((it, i) => ({ ...it, page: pageNo, position: i + 1, sourceUrl: pageUrl }));
+}
+
+/**
+ * Extract the current page, then keep following "next" pages until
+ * maxPages, no next link, or a page that yields no new hrefs.
+ * Items come back as one stream tagged with `page`, `position` and the
+ * `sourceUrl` of the page they were found on.
+ */
+export async function paginate(
+  page: Page,
+  firstHtml: string,
+  extract: (html: string, pageNo: number, pageUrl: string) => any[],
+  opts: PaginateOpts
+): Promise<PaginateResult> {
+  return crawl(firstHtml, page.url(), extract, opts, async (target) => {
+    await page.goto(target, { waitUntil: "domcontentloaded", timeout: 25000 });
+    if (opts.settle) await opts.settle(page);
+    return { html: await page.content().catch(() => ""), url: page.url() };
+  });
+}
+
+/** Same walk without a browser: `load` fetches each next page's HTML (--http). */
+export async function paginateStatic(
+  firstHtml: string,
+  firstUrl: string,
+  extract: (html: string, pageNo: number, pageUrl: string) => any[],
+  opts: Omit<PaginateOpts, "settle">,
+  load: (url: string) => Promise<Loaded>
+): Promise<PaginateResult> {
+  return crawl(firstHtml, firstUrl, extract, opts, load);
+}
+
+async function crawl(
+  firstHtml: string,
+  firstUrl: string,
+  extract: (html: string, pageNo: number, pageUrl: string) => any[],
+  opts: Omit<PaginateOpts, "settle">,
+  load: (url: string) => Promise<Loaded>
+): Promise<PaginateResult> {
+  const maxPages = Math.max(1, opts.maxPages || 1);
+  const seen = new Set<string>();
+  const visited = new Set<string>([firstUrl.replace(/#.*$/, "")]);
+
+  const first = extract(firstHtml, 1, firstUrl);
+  for (const it of first) seen.add(itemDedupeKey(it, firstUrl));
+  const items = tagPage(first, 1, firstUrl);
+
+  let html = firstHtml;
+  let url = firstUrl;
+  let pages = 1;
+  let stopReason: PaginateResult["stopReason"] = "max-pages";
+
+  while (pages < maxPages) {
+    const next = findNextPageUrl(html, url, pages, opts.nextSelector);
+    if (!next) {
+      stopReason = "no-next";
+      break;
+    }
+    const target = next.url.replace(/#.*$/, "");
+    if (visited.has(target)) {
+      stopReason = "revisit";
+      break;
+    }
+    visited.add(target);
+
+    opts.log?.info(`[paginate] page ${pages + 1} (${next.via}):`, target);
+    try {
+      await opts.beforeGoto?.(target);
+      ({ html, url } = await load(target));
+    } catch (err: any) {
+      if (err?.kind === "robots") {
+        opts.log?.info("[paginate] skipped (robots.txt):", target);
+        stopReason = "robots";
+      } else {
+        opts.log?.info("[paginate] goto failed:", target, err?.message || "");
+        stopReason = "goto-failed";
+      }
+      break;
+    }
+
+    await opts.onPage?.(url, html, pages + 1);
+    const pageItems = extract(html, pages + 1, url);
+    let newKeys = 0;
+    const fresh = pageItems.filter((it) => {
+      const k = itemDedupeKey(it, url);
+      // nothing to dedupe on: kept, as on page 1, but it doesn't make the page new
+      if (!k) return true;
+      if (seen.has(k)) return false;
+      seen.add(k);
+      newKeys++;
+      return true;
+    });
+
+    if (!newKeys) {
+      opts.log?.info(`[paginate] page ${pages + 1} yielded no new hrefs — stopping`);
+      stopReason = "no-new-hrefs";
+      break;
+    }
+
+    pages += 1;
+    items.push(...tagPage(fresh, pages, url));
+    opts.log?.debug(`[paginate] page ${pages}: +${fresh.length} items (total ${items.length})`);
+  }
+
+  return { items, pages, stopReason };
+}
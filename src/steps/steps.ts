@@ -12,7 +12,33 @@ export async function maybeScroll(page: Page) {
   await page.waitForTimeout(200);
 }
 
-export async function dismissModals(page: Page) {
+function wordsRegex(words: string[]) {
+  const esc = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^\\s*(${esc.join("|")})\\s*$`, "i");
+}
+
+/** Click the first visible button/link whose label is one of `words`. */
+export async function clickByWords(page: Page, words: string[], scope = "") {
+  if (!words.length) return false;
+  const sel = ["button", "[role='button']", "a"].map((t) => `${scope} ${t}`.trim()).join(", ");
+  const loc = page.locator(sel).filter({ hasText: wordsRegex(words) }).first();
+  if (!(await loc.isVisible().catch(() => false))) return false;
+  return loc
+    .click({ timeout: 1200 })
+    .then(() => true)
+    .catch(() => false);
+}
+
+/** Cookie/consent banners (i18n.acceptWords), scoped so "continue"/"yes" stay safe. */
+export async function acceptCookies(page: Page, acceptWords: string[] = []) {
+  const scope =
+    "[id*='cookie' i], [class*='cookie' i], [id*='consent' i], [class*='consent' i], [role='dialog'], [aria-modal='true']";
+  const clicked = await clickByWords(page, acceptWords, `:is(${scope})`);
+  if (clicked) await page.waitForTimeout(150);
+  return clicked;
+}
+
+export async function dismissModals(page: Page, closeWords: string[] = []) {
   // basic common selectors; extend as needed
   const selectors = [
     "[data-popup-close]",
@@ -28,6 +54,11 @@ export async function dismissModals(page: Page) {
       await page.waitForTimeout(100);
     }
   }
+  // localized close buttons, only inside dialog-ish containers
+  const scope = "[role='dialog'], [aria-modal='true'], .modal, .popup";
+  if (await clickByWords(page, closeWords, `:is(${scope})`)) {
+    await page.waitForTimeout(100);
+  }
 }
 
 export async function runStep(page: Page, step: any) {
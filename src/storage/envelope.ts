@@ -0,0 +1,110 @@
+// src/storage/envelope.ts
+import { createHash, randomBytes } from "node:crypto";
+
+/* ========================= types ========================= */
+
+export type EngineMode = "normal" | "raw" | "teach" | "http";
+
+/** Fields every item written to storage/items.jsonl carries. */
+export type ItemEnvelope = {
+  key: string; // stable across runs: hash of the canonical href (title/image when no href)
+  sourceUrl: string; // page the item was extracted from
+  host: string;
+  runId: string;
+  engine: EngineMode;
+  kind?: string; // classifyPage result
+  profileId?: string; // learned profile used, if any
+  page: number; // 1-based pagination page
+  rank: number; // 1-based position in the emitted stream
+  scrapedAt: string; // ISO time
+};
+
+export type EnvelopeMeta = {
+  sourceUrl: string;
+  runId: string;
+  engine: EngineMode;
+  kind?: string;
+  profileId?: string;
+  scrapedAt?: number; // epoch ms, defaults to now
+};
+
+// tracking params that never identify a product
+const TRACKING_PARAM_RE = /^(utm_\w+|fbclid|gclid|gbraid|wbraid|msclkid|mc_cid|mc_eid|_ga|_gl|ref_?|srsltid)$/i;
+
+/* ========================= ids ========================= */
+
+/** "20250131T120000-3f9a1c": sortable by time, unique enough per machine. */
+export function newRunId(now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "");
+  return `${stamp}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Absolute URL without hash, tracking params or trailing slash, host
+ * lowercased and query keys sorted — two links to the same product
+ * canonicalize to the same string.
+ */
+export function canonicalHref(href: any, base?: string): string {
+  if (href == null || href === "") return "";
+  try {
+    const u = new URL(String(href), base);
+    u.hash = "";
+    u.hostname = u.hostname.toLowerCase().replace(/^www\./, "");
+    const kept = [...u.searchParams.entries()].filter(([k]) => !TRACKING_PARAM_RE.test(k));
+    kept.sort(([a], [b]) => a.localeCompare(b));
+    u.search = new URLSearchParams(kept).toString();
+    return u.toString().replace(/\/+(\?|$)/, "$1");
+  } catch {
+    return String(href).replace(/#.*$/, "").replace(/\/+$/, "");
+  }
+}
+
+function shortHash(s: string) {
+  return createHash("sha1").update(s).digest("hex").slice(0, 16);
+}
+
+/**
+ * Stable item key. Priority mirrors teach's makeKey: href/url/link/productUrl,
+ * then title+image, title, image. Links back to the page itself (teach's
+ * synthetic "#teach-N" hrefs) don't identify an item, so they fall through.
+ */
+export function itemKey(it: any, sourceUrl: string): string {
+  const href = canonicalHref(it?.href || it?.url || it?.link || it?.productUrl, sourceUrl);
+  if (href && href !== canonicalHref(sourceUrl)) return shortHash(href);
+
+  const title = it?.title ? String(it.title).replace(/\s+/g, " ").trim().toLowerCase() : "";
+  const image = it?.image ? canonicalHref(it.image, sourceUrl) : "";
+  if (title || image) return shortHash(`${canonicalHref(sourceUrl)}¦${title}¦${image}`);
+  return "";
+}
+
+/* ========================= stamping ========================= */
+
+/**
+ * Stamp the envelope onto items about to be emitted. Per-item `sourceUrl`
+ * and `page` (set by paginate) win over the run-level values.
+ */
+export function withEnvelope(items: any[], meta: EnvelopeMeta): any[] {
+  const scrapedAt = new Date(meta.scrapedAt ?? Date.now()).toISOString();
+  return items.map((it, i) => {
+    const sourceUrl = it.sourceUrl || meta.sourceUrl;
+    let host = "";
+    try {
+      host = new URL(sourceUrl).host;
+    } catch {}
+
+    const env: ItemEnvelope = {
+      key: itemKey(it, sourceUrl) || `${meta.runId}-${i + 1}`,
+      sourceUrl,
+      host,
+      runId: meta.runId,
+      engine: meta.engine,
+      kind: meta.kind,
+      profileId: meta.profileId,
+      page: Number(it.page) || 1,
+      rank: i + 1,
+      scrapedAt,
+    };
+    return { ...it, ...env };
+  });
+}
@@ -0,0 +1,121 @@
+// src/storage/queue.ts
+import { existsSync, mkdirSync, appendFileSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { FailureKind } from "../steps/outcome.js";
+
+/* ========================= types ========================= */
+
+// "skipped" = never fetched on purpose (robots.txt); not retried, not a failure
+export type JobState = "pending" | "running" | "done" | "failed" | "skipped";
+
+export type Job = {
+  id: string; // `${runId}:${index}`
+  runId: string;
+  url: string;
+  mode?: "normal" | "raw" | "http";
+  maxPages?: number;
+  assist?: boolean;
+  blockHeavy?: boolean;
+  state: JobState;
+  attempts: number;
+  notBefore?: number; // epoch ms; backoff before the next attempt
+  lastError?: string;
+  errorKind?: FailureKind;
+  items?: number;
+  pages?: number;
+  ms?: number; // duration of the last attempt
+  updatedAt: string;
+};
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  backoffMs: number; // first retry delay; doubles per attempt
+  maxBackoffMs: number;
+};
+
+const QUEUE_FILE = "queue.jsonl";
+
+// a redirect loop won't fix itself; an empty page gets one more look
+const MAX_ATTEMPTS_BY_KIND: Partial<Record<FailureKind, number>> = {
+  "too-many-redirects": 1,
+  "empty-html": 2,
+  "zero-items": 2,
+};
+
+/* ========================= file ========================= */
+
+/**
+ * `<dir>/queue.jsonl` (dir = config storage.dir), append-only: every state
+ * change writes the whole job as one line, the last line per id wins. A run
+ * killed mid-write loses at most that line.
+ */
+export function saveJob(job: Job, dir: string) {
+  mkdirSync(dir, { recursive: true });
+  job.updatedAt = new Date().toISOString();
+  appendFileSync(join(dir, QUEUE_FILE), JSON.stringify(job) + "\n");
+}
+
+function readJobs(dir: string): Map<string, Job> {
+  const out = new Map<string, Job>();
+  const path = join(dir, QUEUE_FILE);
+  if (!existsSync(path)) return out;
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const j = JSON.parse(line);
+      if (j?.id && j?.runId) out.set(j.id, j);
+    } catch {
+      // torn last line from a killed run
+    }
+  }
+  return out;
+}
+
+/* ========================= runs ========================= */
+
+export function enqueueRun(
+  runId: string,
+  entries: Omit<Job, "id" | "runId" | "state" | "attempts" | "updatedAt">[],
+  dir: string
+): Job[] {
+  return entries.map((e, i) => {
+    const job: Job = { ...e, id: `${runId}:${i}`, runId, state: "pending", attempts: 0, updatedAt: "" };
+    saveJob(job, dir);
+    return job;
+  });
+}
+
+/**
+ * Jobs of `runId` — or of the most recent run that still has unfinished
+ * jobs. Jobs left "running" by a dead process go back to pending; their
+ * attempt still counts.
+ */
+export function loadRun(runId: string | undefined, dir: string): { runId: string; jobs: Job[] } | null {
+  const all = [...readJobs(dir).values()];
+  let id = runId;
+  if (!id) {
+    const open = all
+      .filter((j) => j.state === "pending" || j.state === "running")
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    id = open[0]?.runId;
+  }
+  if (!id) return null;
+
+  const jobs = all
+    .filter((j) => j.runId === id)
+    .sort((a, b) => Number(a.id.split(":").pop()) - Number(b.id.split(":").pop()));
+  if (!jobs.length) return null;
+  for (const j of jobs) if (j.state === "running") j.state = "pending";
+  return { runId: id, jobs };
+}
+
+/* ========================= retries ========================= */
+
+export function maxAttemptsFor(kind: FailureKind | undefined, policy: RetryPolicy) {
+  return Math.min(policy.maxAttempts, (kind && MAX_ATTEMPTS_BY_KIND[kind]) || policy.maxAttempts);
+}
+
+/** Exponential backoff: backoffMs, 2×, 4×… capped at maxBackoffMs. */
+export function retryDelay(attempts: number, policy: RetryPolicy) {
+  return Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** Math.max(0, attempts - 1));
+}
@@ -0,0 +1,179 @@
+// src/storage/runs.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync, renameSync } from "node:fs";
+import { join } from "node:path";
+import type { FlowScrapeConfig } from "../config/config.js";
+import { judgeRun, EngineResult, Failure } from "../steps/outcome.js";
+import { withSink, StorageSink } from "./storage.js";
+import { createSink } from "./sinks.js";
+import { log } from "../log.js";
+
+/* ========================= types ========================= */
+
+/** What one URL of a run produced (or why it didn't). */
+export type UrlReport = {
+  url: string;
+  engine?: string; // the engine that produced the items (normal when --http escalated)
+  kind?: string;
+  ok: boolean;
+  items: number;
+  pages: number;
+  ms: number;
+  attempts?: number; // batch
+  selectors?: EngineResult["selectors"];
+  metrics?: EngineResult["metrics"];
+  escalated?: boolean;
+  adapter?: string; // items came from a platform JSON endpoint
+  error?: Pick<Failure, "kind" | "message">;
+};
+
+/** storage/runs/<runId>/manifest.json: where a dataset came from. */
+export type RunManifest = {
+  runId: string;
+  engine: string; // normal | raw | teach | http | batch
+  state: "running" | "done" | "failed";
+  startedAt: string;
+  finishedAt?: string;
+  ms?: number;
+  dir: string;
+  args?: string[] | Record<string, any>; // CLI argv, or scrape() options
+  urls: string[];
+  sinks: string[];
+  config: FlowScrapeConfig;
+  results: UrlReport[]; // one per URL, last attempt wins
+  totals: { urls: number; ok: number; failed: number; skipped: number; items: number; pages: number };
+  error?: string; // the run itself threw
+};
+
+export type RunSpec = {
+  runId: string;
+  engine: string;
+  urls: string[];
+  args?: RunManifest["args"];
+};
+
+const MANIFEST = "manifest.json";
+
+/* ========================= helpers ========================= */
+
+/** `<storage.dir>/runs/<runId>` — every file sink of a run writes here. */
+export function runDir(base: string, runId: string) {
+  return join(base, "runs", runId);
+}
+
+/** Build a run's record of one URL from the engine result (or the error it threw). */
+export function urlReport(url: string, t0: number, res: EngineResult | null, failure?: Failure | null): UrlReport {
+  const why = failure ?? (res ? judgeRun(res) : null);
+  return {
+    url,
+    engine: res?.engine,
+    kind: res?.kind,
+    ok: !why,
+    items: res?.items.length ?? 0,
+    pages: res?.pages ?? 0,
+    ms: Date.now() - t0,
+    ...(res ? { selectors: res.selectors } : {}),
+    ...(res?.metrics ? { metrics: res.metrics } : {}),
+    ...(res?.escalated ? { escalated: true } : {}),
+    ...(res?.adapter ? { adapter: res.adapter } : {}),
+    ...(why ? { error: { kind: why.kind, message: why.message } } : {}),
+  };
+}
+
+export function readManifest(dir: string): RunManifest | null {
+  const file = join(dir, MANIFEST);
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// tmp + rename so a killed run never leaves half a manifest
+function writeManifest(m: RunManifest) {
+  if (!existsSync(m.dir)) mkdirSync(m.dir, { recursive: true });
+  const file = join(m.dir, MANIFEST);
+  writeFileSync(file + ".tmp", JSON.stringify(m, null, 2));
+  renameSync(file + ".tmp", file);
+}
+
+// robots.txt skips are counted apart from failures, as in the batch summary
+function totals(results: UrlReport[]): RunManifest["totals"] {
+  const ok = results.filter((r) => r.ok).length;
+  const skipped = results.filter((r) => r.error?.kind === "robots").length;
+  return {
+    urls: results.length,
+    ok,
+    failed: results.length - ok - skipped,
+    skipped,
+    items: results.reduce((n, r) => n + r.items, 0),
+    pages: results.reduce((n, r) => n + r.pages, 0),
+  };
+}
+
+/* ========================= run ========================= */
+
+/**
+ * Run `fn` as one run: config sinks write into storage/runs/<runId>/ and
+ * manifest.json there is rewritten as URLs are reported and when the run
+ * ends. With an injected `sink` items go there and no run dir is made.
+ * --resume reuses the runId, so earlier results in the manifest are kept.
+ */
+export async function withRun<T>(
+  config: FlowScrapeConfig,
+  spec: RunSpec,
+  fn: (report: (r: UrlReport) => void) => Promise<T>,
+  sink?: StorageSink
+): Promise<T> {
+  const dir = runDir(config.storage.dir, spec.runId);
+  const prev = sink ? null : readManifest(dir);
+  const m: RunManifest = {
+    runId: spec.runId,
+    engine: spec.engine,
+    state: "running",
+    startedAt: prev?.startedAt ?? new Date().toISOString(),
+    dir,
+    args: prev?.args ?? spec.args, // --resume keeps the args that queued the jobs
+    urls: spec.urls,
+    sinks: sink ? [sink.name ?? "custom"] : config.storage.sinks,
+    config,
+    results: prev?.results ?? [],
+    totals: totals(prev?.results ?? []),
+  };
+  const save = () => {
+    if (sink) return;
+    try {
+      writeManifest(m);
+    } catch (e: any) {
+      log.warn(`[storage] could not write ${join(dir, MANIFEST)}:`, e?.message || e);
+    }
+  };
+
+  const report = (r: UrlReport) => {
+    const i = m.results.findIndex((x) => x.url === r.url);
+    if (i >= 0) m.results[i] = r;
+    else m.results.push(r);
+    m.totals = totals(m.results);
+    save();
+  };
+
+  save();
+  try {
+    const out = await withSink(
+      sink ?? createSink(config.storage, dir),
+      { runId: spec.runId, engine: spec.engine, urls: spec.urls },
+      () => fn(report)
+    );
+    m.state = "done";
+    return out;
+  } catch (e: any) {
+    m.state = "failed";
+    m.error = String(e?.message || e).split("\n")[0];
+    throw e;
+  } finally {
+    m.finishedAt = new Date().toISOString();
+    m.ms = Date.parse(m.finishedAt) - Date.parse(m.startedAt);
+    save();
+    if (!sink) log.info(`[storage] run ${spec.runId} → ${dir}/`);
+  }
+}
@@ -0,0 +1,284 @@
+// src/storage/sinks.ts
+import { existsSync, mkdirSync, appendFileSync } from "node:fs";
+import { join, dirname } from "node:path";
+import type { StorageSink, RunRecord } from "./storage.js";
+import { logToStderr } from "../log.js";
+
+/* ========================= types ========================= */
+
+export type SinkName = "jsonl" | "csv" | "sqlite" | "stdout";
+
+export const SINK_NAMES: SinkName[] = ["jsonl", "csv", "sqlite", "stdout"];
+
+// spreadsheet-friendly columns; everything else lands in `extra` as JSON
+const CSV_COLUMNS = [
+  "key",
+  "runId",
+  "engine",
+  "kind",
+  "host",
+  "sourceUrl",
+  "page",
+  "rank",
+  "title",
+  "href",
+  "image",
+  "price",
+  "amount",
+  "currency",
+  "compareAt",
+  "scrapedAt",
+];
+
+const SQLITE_FILE = "flowscrape.db";
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    engine TEXT,
+    urls TEXT,
+    started_at TEXT,
+    finished_at TEXT,
+    items INTEGER NOT NULL DEFAULT 0,
+    pages INTEGER NOT NULL DEFAULT 0,
+    error TEXT
+  );
+  CREATE TABLE IF NOT EXISTS items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT,
+    key TEXT,
+    source_url TEXT,
+    host TEXT,
+    engine TEXT,
+    kind TEXT,
+    page INTEGER,
+    rank INTEGER,
+    title TEXT,
+    href TEXT,
+    amount REAL,
+    currency TEXT,
+    scraped_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS items_run ON items (run_id);
+  CREATE INDEX IF NOT EXISTS items_key ON items (key);
+  CREATE TABLE IF NOT EXISTS pages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT,
+    url TEXT NOT NULL,
+    html TEXT,
+    ts INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS pages_run ON pages (run_id);
+`;
+
+/* ========================= helpers ========================= */
+
+function ensureDir(dir: string) {
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+}
+
+const ndjson = (rows: any[]) => rows.map((r) => JSON.stringify(r) + "\n").join("");
+
+function csvCell(v: any) {
+  if (v == null) return "";
+  const s = typeof v === "object" ? JSON.stringify(v) : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvValue(it: any, col: string) {
+  if (col === "amount" || col === "currency" || col === "compareAt") return it.priceInfo?.[col];
+  return it[col];
+}
+
+// node:sqlite takes null, numbers, strings and bytes — never undefined
+const sqlVal = (v: any) => (v == null ? null : typeof v === "object" ? JSON.stringify(v) : v);
+
+/* ========================= sinks ========================= */
+
+/** Today's layout in `dir`: items.jsonl, pages.jsonl (url + ts) and pages.html.jsonl. */
+export function jsonlSink(dir: string): StorageSink {
+  return {
+    name: "jsonl",
+    writeItems(items) {
+      ensureDir(dir);
+      appendFileSync(join(dir, "items.jsonl"), ndjson(items));
+    },
+    writePage(url, html) {
+      ensureDir(dir);
+      const ts = Date.now();
+      appendFileSync(join(dir, "pages.jsonl"), ndjson([{ url, ts }]));
+      appendFileSync(join(dir, "pages.html.jsonl"), ndjson([{ url, html, ts }]));
+    },
+  };
+}
+
+/** `dir`/items.csv with fixed columns plus `extra` (JSON of the rest); no pages. */
+export function csvSink(dir: string): StorageSink {
+  const file = join(dir, "items.csv");
+  const known = new Set([...CSV_COLUMNS, "priceInfo"]);
+  return {
+    name: "csv",
+    writeItems(items) {
+      ensureDir(dir);
+      const head = existsSync(file) ? "" : [...CSV_COLUMNS, "extra"].join(",") + "\n";
+      const rows = items.map((it) => {
+        const extra = Object.fromEntries(
+          Object.entries(it).filter(([k]) => !known.has(k) && !k.startsWith("_"))
+        );
+        const cells = CSV_COLUMNS.map((c) => csvCell(csvValue(it, c)));
+        return [...cells, csvCell(Object.keys(extra).length ? extra : null)].join(",") + "\n";
+      });
+      appendFileSync(file, head + rows.join(""));
+    },
+  };
+}
+
+/** Items as NDJSON on stdout for piping; log lines move to stderr. */
+export function stdoutSink(): StorageSink {
+  logToStderr();
+  return {
+    name: "stdout",
+    writeItems(items) {
+      process.stdout.write(ndjson(items));
+    },
+  };
+}
+
+/**
+ * `file` as a SQLite database with runs, items and pages tables (node:sqlite,
+ * Node 22.5+). Opened on first use, closed when the run ends.
+ */
+export function sqliteSink(file: string): StorageSink {
+  let db: any = null;
+  let opening: Promise<any> | null = null;
+  let runId: string | null = null;
+
+  // batch workers write concurrently: they all wait on the same open
+  function ready() {
+    opening ??= (async () => {
+      let sqlite: typeof import("node:sqlite");
+      try {
+        sqlite = await import("node:sqlite");
+      } catch {
+        throw new Error(`[storage] the sqlite sink needs Node 22.5+ (node:sqlite); this is ${process.version}`);
+      }
+      ensureDir(dirname(file));
+      db = new sqlite.DatabaseSync(file);
+      db.exec(SQLITE_SCHEMA);
+      return db;
+    })();
+    return opening;
+  }
+
+  // one transaction per batch of rows
+  function inTx(fn: () => void) {
+    db.exec("BEGIN");
+    try {
+      fn();
+      db.exec("COMMIT");
+    } catch (e) {
+      db.exec("ROLLBACK");
+      throw e;
+    }
+  }
+
+  return {
+    name: "sqlite",
+    async open(run: RunRecord) {
+      await ready();
+      runId = run.runId;
+      // --resume reopens the same run; keep its original start
+      db.prepare(
+        "INSERT INTO runs (id, engine, urls, started_at) VALUES (?, ?, ?, ?) ON CONFLICT (id) DO NOTHING"
+      ).run(run.runId, sqlVal(run.engine), JSON.stringify(run.urls), run.startedAt);
+    },
+    async writeItems(items) {
+      await ready();
+      const insert = db.prepare(
+        `INSERT INTO items (run_id, key, source_url, host, engine, kind, page, rank, title, href, amount, currency, scraped_at, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      inTx(() => {
+        for (const it of items) {
+          insert.run(
+            sqlVal(it.runId ?? runId),
+            sqlVal(it.key),
+            sqlVal(it.sourceUrl),
+            sqlVal(it.host),
+            sqlVal(it.engine),
+            sqlVal(it.kind),
+            sqlVal(it.page),
+            sqlVal(it.rank),
+            sqlVal(it.title),
+            sqlVal(it.href),
+            sqlVal(it.priceInfo?.amount),
+            sqlVal(it.priceInfo?.currency),
+            sqlVal(it.scrapedAt),
+            JSON.stringify(it)
+          );
+        }
+      });
+    },
+    async writePage(url, html) {
+      await ready();
+      db.prepare("INSERT INTO pages (run_id, url, html, ts) VALUES (?, ?, ?, ?)").run(sqlVal(runId), url, html, Date.now());
+    },
+    async close(run: RunRecord) {
+      if (!db) return;
+      db.prepare(
+        `UPDATE runs SET finished_at = ?, error = ?,
+           items = (SELECT COUNT(*) FROM items WHERE run_id = ?),
+           pages = (SELECT COUNT(*) FROM pages WHERE run_id = ?)
+         WHERE id = ?`
+      ).run(sqlVal(run.finishedAt), sqlVal(run.error), run.runId, run.runId, run.runId);
+      db.close();
+      db = null;
+      opening = null;
+      runId = null;
+    },
+  };
+}
+
+/** Fan every call out to all `sinks` (csv + sqlite, jsonl + stdout…). */
+export function multiSink(sinks: StorageSink[]): StorageSink {
+  return {
+    name: sinks.map((s) => s.name ?? "custom").join("+"),
+    async open(run) {
+      await Promise.all(sinks.map((s) => s.open?.(run)));
+    },
+    async writeItems(items) {
+      await Promise.all(sinks.map((s) => s.writeItems(items)));
+    },
+    async writePage(url, html) {
+      await Promise.all(sinks.map((s) => s.writePage?.(url, html)));
+    },
+    async close(run) {
+      await Promise.all(sinks.map((s) => s.close?.(run)));
+    },
+  };
+}
+
+/**
+ * Built-in sinks by name (config `storage`, --sink / --out-dir, FS_SINK /
+ * FS_OUT_DIR). File sinks write into `runDir` (storage/runs/<runId>/ for
+ * CLI runs); the SQLite database stays in `spec.dir`, shared by all runs.
+ */
+export function createSink(spec: { sinks: string[]; dir: string }, runDir = spec.dir): StorageSink {
+  const sinks = spec.sinks.map((name): StorageSink => {
+    switch (name) {
+      case "jsonl":
+        return jsonlSink(runDir);
+      case "csv":
+        return csvSink(runDir);
+      case "sqlite":
+        return sqliteSink(join(spec.dir, SQLITE_FILE));
+      case "stdout":
+        return stdoutSink();
+      default:
+        throw new Error(`[storage] unknown sink "${name}" (${SINK_NAMES.join(" | ")})`);
+    }
+  });
+  if (!sinks.length) throw new Error("[storage] no sinks configured");
+  return sinks.length === 1 ? sinks[0] : multiSink(sinks);
+}
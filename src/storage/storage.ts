@@ -1,48 +1,104 @@
 // src/storage/storage.ts
-import { existsSync, mkdirSync, appendFileSync, readFileSync, writeFileSync } from "node:fs";
 import { createHash } from "node:crypto";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { jsonlSink } from "./sinks.js";
 
-if (!existsSync("storage")) mkdirSync("storage");
+/* ========================= types ========================= */
 
-const seenPages = new Set<string>();
-
-type Stats = {
+/** One scrape invocation as sinks see it (the SQLite `runs` table). */
+export type RunRecord = {
+  runId: string;
+  engine?: string; // normal | raw | teach | http | batch
+  urls: string[];
+  startedAt: string;
+  finishedAt?: string;
+  items: number; // written through this sink so far
   pages: number;
-  pagesHtml: number;
-  items: number;
-  products: number;
+  error?: string; // the run threw
 };
 
-const stats: Stats = {
-  pages: 0,
-  pagesHtml: 0,
-  items: 0,
-  products: 0,
+/**
+ * Where items and page snapshots go. Built-ins live in sinks.ts (jsonl,
+ * csv, sqlite, stdout); anything with writeItems works. open/close bracket
+ * a run when it goes through withSink().
+ */
+export type StorageSink = {
+  name?: string;
+  open?(run: RunRecord): Promise<void> | void;
+  writeItems(items: any[]): Promise<void> | void;
+  writePage?(url: string, html: string): Promise<void> | void;
+  close?(run: RunRecord): Promise<void> | void;
 };
 
+type Scope = { sink: StorageSink; run: RunRecord; seen: Set<string> };
+
+/* ========================= state ========================= */
+
+// per async call chain, like the logger in src/log.ts
+const sinkScope = new AsyncLocalStorage<Scope>();
+
+// outside withSink (replay tooling, old callers): today's storage/*.jsonl
+let fallback: Scope | null = null;
+
+/* ========================= scope ========================= */
+
+/**
+ * Run `fn` with writeItems / writePageOnce going to `sink`, bracketed by
+ * sink.open / sink.close. Nothing is created on disk until a sink writes.
+ */
+export async function withSink<T>(
+  sink: StorageSink,
+  run: Pick<RunRecord, "runId" | "engine" | "urls">,
+  fn: () => Promise<T>
+): Promise<T> {
+  const rec: RunRecord = { ...run, startedAt: new Date().toISOString(), items: 0, pages: 0 };
+  await sink.open?.(rec);
+  try {
+    return await sinkScope.run({ sink, run: rec, seen: new Set() }, fn);
+  } catch (e: any) {
+    rec.error = String(e?.message || e).split("\n")[0];
+    throw e;
+  } finally {
+    rec.finishedAt = new Date().toISOString();
+    await sink.close?.(rec);
+  }
+}
+
+function current(): Scope {
+  const scoped = sinkScope.getStore();
+  if (scoped) return scoped;
+  fallback ??= {
+    sink: jsonlSink("storage"),
+    run: { runId: "", urls: [], startedAt: new Date().toISOString(), items: 0, pages: 0 },
+    seen: new Set(),
+  };
+  return fallback;
+}
+
+/* ========================= writes ========================= */
+
+/** Snapshot `url` once per run (pagination revisits, retries…). */
 export async function writePageOnce(url: string, html: string) {
+  const { sink, run, seen } = current();
   const key = hash(url);
-  if (seenPages.has(key)) return;
-  seenPages.add(key);
-
-  appendFileSync("storage/pages.jsonl", JSON.stringify({ url, ts: Date.now() }) + "\n");
-  appendFileSync("storage/pages.html.jsonl", JSON.stringify({ url, html, ts: Date.now() }) + "\n");
+  if (seen.has(key)) return;
+  seen.add(key);
 
-  stats.pages += 1;
-  stats.pagesHtml += 1;
+  await sink.writePage?.(url, html);
+  run.pages += 1;
 }
 
 export async function writeItems(items: any[]) {
-  for (const item of items) {
-    appendFileSync("storage/items.jsonl", JSON.stringify(item) + "\n");
-    stats.items += 1;
-  }
-  // products == items for now
-  stats.products = stats.items;
+  if (!items.length) return;
+  const { sink, run } = current();
+  await sink.writeItems(items);
+  run.items += items.length;
 }
 
-export function getStats() {
-  return stats;
+/** Pages / items written so far by the current run (not the process). */
+export function getStats(): Pick<RunRecord, "pages" | "items"> {
+  const { run } = current();
+  return { pages: run.pages, items: run.items };
 }
 
 function hash(s: string) {
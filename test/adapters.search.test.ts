@@ -0,0 +1,116 @@
+// test/adapters.search.test.ts
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { SEARCH_ADAPTERS } from "../src/adapters/search.js";
+import type { CapturedRequest } from "../src/browser/capture.js";
+import { startStub, stubConfig, Stub } from "./stub.js";
+
+const algolia = SEARCH_ADAPTERS.find((a) => a.name === "algolia")!;
+const html = (f: string) => readFileSync(join("test", "recorded", "algolia", f), "utf8");
+
+// Algolia multi-index calls all POST to one path; the body says what they ask for
+const QUERIES = "/abc-dsn.algolia.net/1/indexes/*/queries";
+const params = (index: string, p: Record<string, string>) =>
+  JSON.stringify({ requests: [{ indexName: index, params: new URLSearchParams(p).toString() }] });
+
+const FACETS = JSON.stringify([["categories:jackets"]]);
+const BODIES = {
+  warmUp: params("prod_products", { query: "", hitsPerPage: "48" }),
+  typeahead: params("prod_products_query_suggestions", { query: "", hitsPerPage: "5" }),
+  category: params("prod_products", { query: "", hitsPerPage: "24", facetFilters: FACETS }),
+  search: params("prod_products", { query: "shell", hitsPerPage: "24" }),
+};
+
+let stub: Stub;
+const call = (body: string): CapturedRequest => ({
+  url: `${stub.origin}${QUERIES}`,
+  method: "POST",
+  headers: { "content-type": "application/json" },
+  body,
+});
+const posted = () => stub.bodies.filter((_, i) => stub.hits[i] === QUERIES);
+
+before(async () => {
+  stub = await startStub({
+    [QUERIES]: [
+      { body: "query_suggestions", file: "algolia/suggestions.json" },
+      { body: "facetFilters", file: "algolia/jackets.json" },
+      { body: "query=shell", file: "algolia/shell.json" },
+      { body: "hitsPerPage=48", file: "algolia/catalogue.json" },
+    ],
+  });
+});
+after(() => stub.close());
+
+/* ========================= picking the page's call ========================= */
+
+test("algolia: a category page replays its filtered call, not the warm-up or typeahead", async () => {
+  const seen = posted().length;
+  const res = await algolia.scrape(`${stub.origin}/collections/jackets`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: html("category.html"),
+    requests: [call(BODIES.warmUp), call(BODIES.typeahead), call(BODIES.category), call(BODIES.warmUp)],
+  });
+  assert.ok(res);
+  assert.deepEqual(
+    res.items.map((it) => it.href),
+    [`${stub.origin}/products/alpine-shell-jacket`, `${stub.origin}/products/packable-down-vest`]
+  );
+  assert.equal(res.stopReason, "last-page"); // nbHits 2: no page 2
+  // one request, the category's page 1: nothing probed the other calls
+  const sent = posted().slice(seen);
+  assert.equal(sent.length, 1);
+  assert.match(sent[0], /facetFilters/);
+});
+
+test("algolia: a search page replays the call carrying its ?q=", async () => {
+  const res = await algolia.scrape(`${stub.origin}/search?q=Shell`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: "",
+    requests: [call(BODIES.warmUp), call(BODIES.search), call(BODIES.typeahead)],
+  });
+  assert.deepEqual(
+    res?.items.map((it) => it.title),
+    ["Alpine Shell Jacket", "Rain Shell Pants"]
+  );
+});
+
+test("algolia: only warm-up and typeahead calls recorded → the DOM", async () => {
+  const seen = posted().length;
+  const res = await algolia.scrape(`${stub.origin}/collections/jackets`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: html("category.html"),
+    requests: [call(BODIES.warmUp), call(BODIES.typeahead)],
+  });
+  assert.equal(res, null);
+  assert.equal(posted().length, seen);
+});
+
+test("algolia: a product page keeps its DOM result", async () => {
+  const seen = posted().length;
+  const res = await algolia.scrape(`${stub.origin}/products/alpine-shell-jacket`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: html("product.html"),
+    requests: [call(BODIES.category)],
+  });
+  assert.equal(res, null);
+  assert.equal(posted().length, seen);
+});
+
+test("algolia: hits that aren't the page's cards → the DOM", async () => {
+  const bags = `<ul><li class="product"><a href="/products/trail-daypack-22l">Daypack</a></li>
+    <li class="product"><a href="/products/canvas-tote">Tote</a></li></ul>`;
+  const res = await algolia.scrape(`${stub.origin}/collections/bags`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: bags,
+    requests: [call(BODIES.category)],
+  });
+  assert.equal(res, null);
+});
@@ -0,0 +1,170 @@
+// test/adapters.shopify.test.ts
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { shopifyTarget, shopifyItem, shopifyAdapter } from "../src/adapters/shopify.js";
+import { runHttp } from "../src/engine.http.js";
+import { withSink } from "../src/storage/storage.js";
+import { startStub, stubConfig, Stub } from "./stub.js";
+
+const recorded = (f: string) => JSON.parse(readFileSync(join("test", "recorded", "shopify", f), "utf8"));
+const usd = { currency: "USD", locale: "en-US" };
+
+/* ========================= urls ========================= */
+
+test("shopifyTarget: collections, products, market prefixes", () => {
+  assert.deepEqual(shopifyTarget("https://shop.example.com/collections/all"), {
+    type: "collection",
+    handle: "all",
+    base: "https://shop.example.com",
+  });
+  assert.deepEqual(shopifyTarget("https://shop.example.com/en-ca/collections/sale/"), {
+    type: "collection",
+    handle: "sale",
+    base: "https://shop.example.com/en-ca",
+  });
+  assert.deepEqual(shopifyTarget("https://shop.example.com/collections/sale/products/alpine-shell-jacket"), {
+    type: "product",
+    handle: "alpine-shell-jacket",
+    base: "https://shop.example.com",
+  });
+  assert.deepEqual(shopifyTarget("https://shop.example.com/products/alpine-shell-jacket?variant=4100001"), {
+    type: "product",
+    handle: "alpine-shell-jacket",
+    base: "https://shop.example.com",
+  });
+});
+
+test("shopifyTarget: ?sort_by= carries over, ?page=1 is the start", () => {
+  assert.deepEqual(shopifyTarget("https://shop.example.com/collections/all?page=1&sort_by=price-ascending"), {
+    type: "collection",
+    handle: "all",
+    base: "https://shop.example.com",
+    sortBy: "price-ascending",
+  });
+});
+
+test("shopifyTarget: tag paths, storefront filters and other pages stay with the DOM", () => {
+  assert.equal(shopifyTarget("https://shop.example.com/collections/all/outerwear"), null);
+  assert.equal(shopifyTarget("https://shop.example.com/collections/all?filter.v.price.lte=50"), null);
+  // the theme's page 3 isn't products.json's page 3: the DOM engines page from there
+  assert.equal(shopifyTarget("https://shop.example.com/collections/all?page=3&sort_by=price-ascending"), null);
+  assert.equal(shopifyTarget("https://shop.example.com/search?q=jacket"), null);
+  assert.equal(shopifyTarget("https://shop.example.com/pages/about"), null);
+  assert.equal(shopifyTarget("not a url"), null);
+});
+
+/* ========================= mapping ========================= */
+
+test("shopifyItem: products.json string prices, compare-at, cheapest in-stock variant", () => {
+  const [jacket, sock, tote] = recorded("collection-products.json").products;
+  const base = "https://shop.example.com";
+
+  const a = shopifyItem(jacket, base, usd);
+  assert.equal(a.title, "Alpine Shell Jacket");
+  assert.equal(a.href, "https://shop.example.com/products/alpine-shell-jacket");
+  assert.equal(a.image, "https://cdn.shopify.com/s/files/1/0001/files/alpine-shell.jpg?v=1700000000");
+  assert.equal(a.priceInfo?.amount, 149);
+  assert.equal(a.priceInfo?.currency, "USD");
+  assert.equal(a.priceInfo?.compareAt, 189);
+  assert.equal(a.priceInfo?.min, undefined); // one price across variants: no range
+  assert.equal(a.description, "Three-layer waterproof shell.");
+  assert.deepEqual(a.tags, ["outerwear", "sale"]);
+  assert.equal(a.variants.length, 2);
+
+  // the 18.00 single is sold out: 48.00 is what a shopper pays, 18–90 the range
+  const b = shopifyItem(sock, base, usd);
+  assert.equal(b.priceInfo?.amount, 48);
+  assert.equal(b.priceInfo?.compareAt, undefined);
+  assert.equal(b.priceInfo?.min, 18);
+  assert.equal(b.priceInfo?.max, 90);
+  assert.equal(b.image, "https://cdn.shopify.com/s/files/1/0001/files/merino-sock.jpg?v=1700000000");
+  assert.deepEqual(b.tags, ["merino", "basics"]);
+  assert.deepEqual(b.variants[0].options, ["Single"]);
+
+  const c = shopifyItem(tote, base, usd);
+  assert.equal(c.available, false);
+  assert.equal(c.priceInfo?.amount, 45); // nothing in stock: any variant's price
+  assert.equal(c.image, undefined);
+  assert.equal(c.variants[0].sku, undefined);
+});
+
+test("shopifyItem: <handle>.js prices are cents", () => {
+  const it = shopifyItem(recorded("product.js.json"), "https://shop.example.com/en-ca", usd, true);
+  assert.equal(it.href, "https://shop.example.com/en-ca/products/alpine-shell-jacket");
+  assert.equal(it.priceInfo?.amount, 149);
+  assert.equal(it.priceInfo?.compareAt, 189);
+  assert.equal(it.priceInfo?.min, 149);
+  assert.equal(it.priceInfo?.max, 159);
+  assert.equal(it.productType, "Jackets");
+  assert.deepEqual(it.images, [
+    "https://cdn.shopify.com/s/files/1/0001/files/alpine-shell.jpg?v=1700000000",
+    "https://cdn.shopify.com/s/files/1/0001/files/alpine-shell-back.jpg?v=1700000000",
+  ]);
+});
+
+/* ========================= endpoints (local stub) ========================= */
+
+let stub: Stub;
+before(async () => {
+  stub = await startStub({
+    "/collections/all": { file: "shopify/collection.html" },
+    "/collections/all/products.json?limit=250&page=1": { file: "shopify/collection-products.json" },
+    "/collections/all/products.json?limit=250&sort_by=price-ascending&page=1": { file: "shopify/collection-products.json" },
+    "/products/alpine-shell-jacket.js": { file: "shopify/product.js.json" },
+    // password-protected / products.json switched off
+    "/collections/closed": { file: "shopify/collection.html" },
+    "/collections/closed/products.json?limit=250&page=1": { status: 404 },
+  });
+});
+after(() => stub.close());
+
+test("shopifyAdapter: a collection reads whole from products.json", async () => {
+  const config = stubConfig();
+  const html = readFileSync(join("test", "recorded", "shopify", "collection.html"), "utf8");
+  const res = await shopifyAdapter.scrape(`${stub.origin}/collections/all`, { config, maxPages: 5, html });
+  assert.ok(res);
+  assert.equal(res.endpoint, `${stub.origin}/collections/all/products.json?limit=250&page=1`);
+  assert.equal(res.items.length, 3);
+  assert.equal(res.pages, 1);
+  assert.equal(res.stopReason, "last-page"); // fewer than 250: no page 2 request
+  assert.equal(res.items[0].href, `${stub.origin}/products/alpine-shell-jacket`);
+  assert.equal(res.items[0].priceInfo.currency, "USD"); // Shopify.currency.active
+});
+
+test("shopifyAdapter: products.json keeps the collection URL's sort order", async () => {
+  const res = await shopifyAdapter.scrape(`${stub.origin}/collections/all?sort_by=price-ascending`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: "",
+  });
+  assert.equal(res?.endpoint, `${stub.origin}/collections/all/products.json?limit=250&sort_by=price-ascending&page=1`);
+  assert.equal(res?.items.length, 3);
+});
+
+test("shopifyAdapter: a product reads <handle>.js", async () => {
+  const res = await shopifyAdapter.scrape(`${stub.origin}/products/alpine-shell-jacket`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: "",
+  });
+  assert.equal(res?.stopReason, "product");
+  assert.equal(res?.items.length, 1);
+  assert.equal(res?.items[0].priceInfo.amount, 149);
+});
+
+test("products.json switched off: --http extracts the collection from the DOM", async () => {
+  const items: any[] = [];
+  const sink = { name: "memory", writeItems: (xs: any[]) => void items.push(...xs) };
+  const res = await withSink(sink, { runId: "test", urls: [] }, () =>
+    runHttp(`${stub.origin}/collections/closed`, { config: stubConfig(), maxPages: 1 })
+  );
+  assert.ok(stub.hits.includes("/collections/closed/products.json?limit=250&page=1"));
+  assert.equal(res.kind, "shopify");
+  assert.equal(res.adapter, undefined);
+  assert.equal(res.escalated, false);
+  assert.equal(res.items.length, 6);
+  assert.equal(items.length, 6);
+  assert.ok(res.items.some((it) => it.href === `${stub.origin}/products/trail-daypack-22l`));
+});
@@ -0,0 +1,144 @@
+// test/adapters.woocommerce.test.ts
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { wooTarget, wooItem, woocommerceAdapter } from "../src/adapters/woocommerce.js";
+import { runHttp } from "../src/engine.http.js";
+import { withSink } from "../src/storage/storage.js";
+import { startStub, stubConfig, Stub } from "./stub.js";
+
+const recorded = (f: string) => JSON.parse(readFileSync(join("test", "recorded", "woocommerce", f), "utf8"));
+
+/* ========================= urls ========================= */
+
+test("wooTarget: category, search, product, shop, subdirectory installs", () => {
+  assert.deepEqual(wooTarget("https://shop.example.com/product-category/outdoor/jackets/"), {
+    base: "https://shop.example.com",
+    params: { category: "jackets" },
+  });
+  assert.deepEqual(wooTarget("https://shop.example.com/product-category/jackets/page/3/?s=shell"), {
+    base: "https://shop.example.com",
+    params: { category: "jackets", search: "shell" },
+  });
+  assert.deepEqual(wooTarget("https://shop.example.com/product/alpine-shell-jacket/"), {
+    base: "https://shop.example.com",
+    params: { slug: "alpine-shell-jacket" },
+  });
+  assert.deepEqual(wooTarget("https://example.com/store/shop/"), { base: "https://example.com/store", params: {} });
+  assert.deepEqual(wooTarget("https://shop.example.com/?s=vest&post_type=product"), {
+    base: "https://shop.example.com",
+    params: { search: "vest" },
+  });
+});
+
+test("wooTarget: other WordPress pages stay with the DOM", () => {
+  assert.equal(wooTarget("https://shop.example.com/about/"), null);
+  assert.equal(wooTarget("https://shop.example.com/2024/05/spring-sale/"), null);
+  assert.equal(wooTarget("not a url"), null);
+});
+
+/* ========================= mapping ========================= */
+
+test("wooItem: minor-unit prices, sale, ranges, stock, relative URLs", () => {
+  const [jacket, vest] = recorded("category-page1.json");
+  const base = "https://shop.example.com";
+
+  const a = wooItem(jacket, base);
+  assert.equal(a.title, "Alpine Shell Jacket");
+  assert.equal(a.href, "https://shop.example.com/shop/jackets/alpine-shell-jacket/");
+  assert.equal(a.image, "https://shop.example.com/wp-content/uploads/2024/05/alpine-shell.jpg");
+  assert.equal(a.images.length, 2);
+  assert.equal(a.price, "USD 149.00");
+  assert.equal(a.priceInfo?.amount, 149);
+  assert.equal(a.priceInfo?.compareAt, 189);
+  assert.equal(a.description, "Three-layer waterproof shell.");
+  assert.deepEqual(a.categories, ["Jackets & Vests"]);
+  assert.deepEqual(a.tags, ["Sale"]);
+  assert.equal(a.onSale, true);
+  assert.equal(a.stockStatus, "instock");
+  assert.equal(a.lowStock, 3);
+
+  const b = wooItem(vest, base);
+  assert.equal(b.priceInfo?.compareAt, undefined); // regular == price
+  assert.equal(b.priceInfo?.min, 98);
+  assert.equal(b.priceInfo?.max, 118);
+  assert.equal(b.description, "800-fill down."); // empty short_description → description
+  assert.equal(b.sku, undefined);
+  assert.equal(b.image, undefined);
+  assert.equal(b.available, false);
+  assert.equal(b.stockStatus, "outofstock");
+  assert.equal("lowStock" in b, false);
+});
+
+test("wooItem: zero-decimal currencies", () => {
+  const it = wooItem(recorded("yen.json")[0], "https://jp.example.com");
+  assert.equal(it.priceInfo?.amount, 1200);
+  assert.equal(it.price, "JPY 1200");
+});
+
+/* ========================= Store API (local stub) ========================= */
+
+const q = (page: number) => `category=jackets&per_page=100&page=${page}`;
+
+let stub: Stub;
+before(async () => {
+  stub = await startStub({
+    // pretty permalinks, two pages by X-WP-TotalPages
+    [`/wp-json/wc/store/v1/products?${q(1)}`]: { file: "woocommerce/category-page1.json", headers: { "x-wp-totalpages": "2" } },
+    [`/wp-json/wc/store/v1/products?${q(2)}`]: { file: "woocommerce/category-page2.json", headers: { "x-wp-totalpages": "2" } },
+    // plain permalinks: /wp-json 404s, ?rest_route= answers
+    [`/plain/?rest_route=/wc/store/v1/products&${q(1)}`]: { file: "woocommerce/category-page2.json" },
+    // Store API off: both routes 401, the page itself renders
+    "/closed/product-category/jackets/": { file: "woocommerce/shop.html" },
+    [`/closed/wp-json/wc/store/v1/products?${q(1)}`]: { status: 401 },
+    [`/closed/?rest_route=/wc/store/v1/products&${q(1)}`]: { status: 401 },
+  });
+});
+after(() => stub.close());
+
+test("woocommerceAdapter: walks Store API pages up to X-WP-TotalPages", async () => {
+  const res = await woocommerceAdapter.scrape(`${stub.origin}/product-category/jackets/`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: "",
+  });
+  assert.ok(res);
+  assert.equal(res.endpoint, `${stub.origin}/wp-json/wc/store/v1/products?${q(1)}`);
+  assert.equal(res.pages, 2);
+  assert.equal(res.stopReason, "last-page");
+  assert.deepEqual(
+    res.items.map((it) => [it.slug, it.page]),
+    [["alpine-shell-jacket", 1], ["packable-down-vest", 1], ["rain-shell-pants", 2]]
+  );
+  assert.equal(res.items[2].stockStatus, "onbackorder");
+  assert.equal(res.items[0].href, `${stub.origin}/shop/jackets/alpine-shell-jacket/`);
+});
+
+test("woocommerceAdapter: falls back to ?rest_route= on plain permalinks", async () => {
+  const res = await woocommerceAdapter.scrape(`${stub.origin}/plain/product-category/jackets/`, {
+    config: stubConfig(),
+    maxPages: 5,
+    html: "",
+  });
+  assert.equal(res?.endpoint, `${stub.origin}/plain/?rest_route=/wc/store/v1/products&${q(1)}`);
+  assert.equal(res?.items.length, 1);
+  assert.equal(res?.stopReason, "last-page"); // no X-WP-TotalPages: fewer than per_page
+});
+
+test("Store API switched off: --http extracts the category from the DOM", async () => {
+  const items: any[] = [];
+  const sink = { name: "memory", writeItems: (xs: any[]) => void items.push(...xs) };
+  const res = await withSink(sink, { runId: "test", urls: [] }, () =>
+    runHttp(`${stub.origin}/closed/product-category/jackets/`, { config: stubConfig(), maxPages: 1 })
+  );
+  assert.ok(stub.hits.includes(`/closed/?rest_route=/wc/store/v1/products&${q(1)}`));
+  assert.equal(res.kind, "woocommerce");
+  assert.equal(res.adapter, undefined);
+  assert.equal(res.escalated, false);
+  const hrefs = res.items.map((it) => it.href);
+  for (const slug of ["alpine-shell-jacket", "packable-down-vest", "rain-shell-pants", "fleece-liner"]) {
+    assert.ok(hrefs.includes(`${stub.origin}/shop/jackets/${slug}/`), slug);
+  }
+  assert.equal(items.length, res.items.length);
+});
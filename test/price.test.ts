@@ -0,0 +1,97 @@
+// test/price.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { load } from "cheerio";
+import { parseAmount, parsePrice, priceContextFromDoc, withFallbackLocale } from "../src/extract/price.js";
+
+const amount = (txt: string, locale?: string, currency?: string) => {
+  const p = parsePrice(txt, { locale, currency });
+  return p && [p.amount, p.currency];
+};
+
+/* ========================= amounts ========================= */
+
+test("parseAmount: decimal vs grouping separators", () => {
+  assert.equal(parseAmount("1,234.56"), 1234.56);
+  assert.equal(parseAmount("1.234,56"), 1234.56);
+  assert.equal(parseAmount("1 234,56"), 1234.56);
+  assert.equal(parseAmount("1 234,56"), 1234.56);
+  assert.equal(parseAmount("1'234.50"), 1234.5);
+  assert.equal(parseAmount("12,99"), 12.99);
+  assert.equal(parseAmount("45.–"), 45);
+  assert.equal(parseAmount("49"), 49);
+  assert.equal(parseAmount(""), null);
+});
+
+test("parseAmount: a lone separator before 3 digits is the locale's call", () => {
+  assert.equal(parseAmount("1,234"), 1234);
+  assert.equal(parseAmount("1,234", { locale: "en-US" }), 1234);
+  assert.equal(parseAmount("1,234", { locale: "de-DE" }), 1.234);
+  assert.equal(parseAmount("1.234", { locale: "de-DE" }), 1234);
+});
+
+test("parseAmount: a repeated separator groups (Indian lakhs)", () => {
+  assert.equal(parseAmount("1,23,456"), 123456);
+  assert.equal(parseAmount("12,34,567.50"), 1234567.5);
+  assert.equal(parseAmount("1,00,00,000"), 10000000);
+  assert.equal(parseAmount("1,23,45"), 12345);
+});
+
+/* ========================= prices ========================= */
+
+test("parsePrice: the request's examples", () => {
+  assert.deepEqual(amount("1.234,56 €"), [1234.56, "EUR"]);
+  assert.deepEqual(amount("12,99 zł"), [12.99, "PLN"]);
+  assert.deepEqual(amount("CHF 45.–"), [45, "CHF"]);
+  assert.deepEqual(amount("¥1,200"), [1200, "JPY"]);
+  assert.deepEqual(amount("¥1,200", "zh-CN"), [1200, "CNY"]);
+  assert.deepEqual(amount("kr 199", "sv-SE"), [199, "SEK"]);
+  assert.deepEqual(amount("kr 199"), [199, null]);
+});
+
+test("parsePrice: rupees", () => {
+  assert.deepEqual(amount("₹1,23,456", "en-IN"), [123456, "INR"]);
+  assert.deepEqual(amount("₹1,23,456.75"), [123456.75, "INR"]);
+  assert.deepEqual(amount("Rs. 1,299"), [1299, "INR"]);
+  assert.deepEqual(amount("Rs.1,299"), [1299, "INR"]);
+  assert.deepEqual(amount("Rs 12,34,567"), [1234567, "INR"]);
+  assert.deepEqual(amount("1,299 Rs"), [1299, "INR"]);
+});
+
+test("parsePrice: $ takes the page currency, then the locale region", () => {
+  assert.deepEqual(amount("$19.99"), [19.99, null]);
+  assert.deepEqual(amount("$19.99", "en-CA"), [19.99, "CAD"]);
+  assert.deepEqual(amount("$19.99", "en-CA", "USD"), [19.99, "USD"]);
+  assert.deepEqual(amount("CA$ 12.34"), [12.34, "CAD"]);
+});
+
+test("parsePrice: space grouping in locales that group with spaces", () => {
+  assert.deepEqual(amount("1 234,56 €", "fr-FR"), [1234.56, "EUR"]);
+});
+
+test("parsePrice: sale, compare-at and ranges", () => {
+  const sale = parsePrice("Was $189.00 Now $149.00", { locale: "en-US" });
+  assert.equal(sale?.amount, 149);
+  assert.equal(sale?.compareAt, 189);
+
+  const range = parsePrice("12 € – 20 €");
+  assert.equal(range?.amount, 12);
+  assert.equal(range?.min, 12);
+  assert.equal(range?.max, 20);
+
+  assert.equal(parsePrice("Price 49.99")?.amount, 49.99);
+  assert.equal(parsePrice("/products/123"), null);
+});
+
+/* ========================= page context ========================= */
+
+test("priceContextFromDoc: html lang, JSON-LD currency, configured fallback", async () => {
+  const $ = load(`<html lang="de-DE"><script type="application/ld+json">
+    {"@type":"Product","offers":{"@type":"Offer","price":"19.99","priceCurrency":"eur"}}</script></html>`);
+  assert.deepEqual(priceContextFromDoc($), { locale: "de-DE", currency: "EUR" });
+
+  const bare = load("<html><body></body></html>");
+  assert.equal(priceContextFromDoc(bare).locale, undefined);
+  const scoped = await withFallbackLocale("en-IN", async () => priceContextFromDoc(bare).locale);
+  assert.equal(scoped, "en-IN");
+});
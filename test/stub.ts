@@ -0,0 +1,71 @@
+// test/stub.ts — a local HTTP server replaying recorded responses
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { loadConfig, FlowScrapeConfig } from "../src/config/config.js";
+
+/* ========================= types ========================= */
+
+export type Reply = {
+  status?: number; // 200
+  file?: string; // under test/recorded/; .json is served as JSON, anything else as HTML
+  headers?: Record<string, string>;
+  body?: string; // only for requests whose body contains this (POST APIs answer on one path)
+};
+
+export type Stub = {
+  origin: string; // http://127.0.0.1:<port>
+  hits: string[]; // path + query of every request, in order
+  bodies: string[]; // their request bodies ("" for none), same order
+  close(): Promise<void>;
+};
+
+const RECORDED_DIR = join("test", "recorded");
+
+/* ========================= server ========================= */
+
+/**
+ * Serve `routes` (keyed by path + query, exactly as requested) on a free
+ * port; a list of replies is matched on `body`, first fit wins. Anything
+ * else, robots.txt included, is a 404 HTML page.
+ */
+export async function startStub(routes: Record<string, Reply | Reply[]>): Promise<Stub> {
+  const hits: string[] = [];
+  const bodies: string[] = [];
+  const server: Server = createServer(async (req, res) => {
+    const key = req.url || "/";
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    hits.push(key);
+    bodies.push(body);
+    const r = [routes[key] ?? []].flat().find((x) => !x.body || body.includes(x.body));
+    if (!r?.file) {
+      res.writeHead(r?.status ?? 404, { "content-type": "text/html; charset=utf-8", ...r?.headers });
+      res.end("<html><body><h1>Not found</h1></body></html>");
+      return;
+    }
+    const type = r.file.endsWith(".json") ? "application/json; charset=utf-8" : "text/html; charset=utf-8";
+    res.writeHead(r.status ?? 200, { "content-type": type, ...r.headers });
+    res.end(readFileSync(join(RECORDED_DIR, r.file)));
+  });
+  await new Promise<void>((ok) => server.listen(0, "127.0.0.1", ok));
+  const { port } = server.address() as AddressInfo;
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    hits,
+    bodies,
+    close: () => new Promise<void>((ok) => server.close(() => ok())),
+  };
+}
+
+/* ========================= config ========================= */
+
+/** defaults.yaml without the per-host pacing, and no browser escalation. */
+export function stubConfig(): FlowScrapeConfig {
+  const config = loadConfig({ args: ["--no-escalate"], env: {} });
+  return {
+    ...config,
+    politeness: { ...config.politeness, minDelayMs: 0, jitterMs: 0, maxPerMinute: 0 },
+  };
+}